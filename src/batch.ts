@@ -0,0 +1,59 @@
+import * as path from 'path';
+
+export interface BatchOutcome<T> {
+    item: T;
+    /** What the worker threw, for failed items */
+    error?: unknown;
+    /** Not started, or interrupted, because the batch was cancelled */
+    cancelled?: boolean;
+}
+
+/**
+ * Runs `worker` on every item with at most `limit` items in progress at once.
+ * Once `isCancelled` returns true no more items are started, and the items that
+ * fail afterwards count as cancelled rather than failed.
+ *
+ * @returns one outcome per item, in the order of `items`
+ */
+export async function runBatch<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>,
+    isCancelled: () => boolean = () => false
+): Promise<BatchOutcome<T>[]> {
+    const outcomes: BatchOutcome<T>[] = items.map(item => ({ item }));
+    let next = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (next < items.length) {
+            const outcome = outcomes[next++];
+            if (isCancelled()) {
+                outcome.cancelled = true;
+                continue;
+            }
+            try {
+                await worker(outcome.item);
+            } catch (error) {
+                if (isCancelled()) {
+                    outcome.cancelled = true;
+                } else {
+                    outcome.error = error;
+                }
+            }
+        }
+    };
+
+    const runners = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+    await Promise.all(Array.from({ length: runners }, runNext));
+    return outcomes;
+}
+
+/**
+ * Output directory of `filePath` in a batch compilation: the output tree mirrors the
+ * source tree, with one directory per document so that documents side by side do not collide.
+ */
+export function mirrorOutputDirectory(filePath: string, sourceRoot: string, outputRoot: string): string {
+    const relativeDir = path.relative(sourceRoot, path.dirname(filePath));
+    const safeDir = relativeDir.startsWith('..') || path.isAbsolute(relativeDir) ? '' : relativeDir;
+    return path.join(outputRoot, safeDir, path.basename(filePath, path.extname(filePath)));
+}
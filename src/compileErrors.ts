@@ -0,0 +1,75 @@
+export interface CompileError {
+    message: string;
+    /** Source file as printed by Quarkdown, absolute or relative to the working directory */
+    file?: string;
+    /** 1-based line */
+    line?: number;
+    /** 1-based column */
+    column?: number;
+    functionName?: string;
+}
+
+const ANSI_ESCAPE = /\u001b\[[0-9;]*m/g;
+const LOCATION = /((?:[A-Za-z]:)?[^\s:()'"<>]+\.(?:qd|qmd)):(\d+)(?::(\d+))?/;
+const FUNCTION_NAME = /(?:Cannot call function|Unresolved reference|Unknown function|function)\s+['"`]?\.?([A-Za-z_][\w]*)/i;
+// Lines Quarkdown starts an error with, e.g. `Error: ...`, `[ERROR] ...` or an uncaught exception
+const ERROR_LINE = /^\s*(?:\[(?:error|severe|fatal)\]|(?:error|severe|fatal):|Exception in thread "|[\w.]+(?:Exception|Error):)/i;
+const STACK_FRAME = /^\s*at\s+[\w$.]+\(/;
+const MESSAGE_PREFIX = /^\s*(?:\[?(?:error|severe|fatal)\]?:?\s*|Exception in thread "[^"]*"\s*|[\w.]+(?:Exception|Error):\s*)+/i;
+
+/**
+ * Extracts the errors reported by a failed Quarkdown compilation from its console output.
+ * Locations are taken from `file:line[:column]` references on the error line or the lines
+ * right after it; stack trace frames are skipped.
+ */
+export function parseCompileErrors(output: string): CompileError[] {
+    const lines = output.replace(ANSI_ESCAPE, '').split(/\r?\n/);
+    const errors: CompileError[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim() || STACK_FRAME.test(line) || !ERROR_LINE.test(line)) {
+            continue;
+        }
+
+        const message = line.replace(MESSAGE_PREFIX, '').trim() || line.trim();
+        if (seen.has(message)) {
+            continue;
+        }
+        seen.add(message);
+
+        const error: CompileError = { message };
+        const functionMatch = line.match(FUNCTION_NAME);
+        if (functionMatch) {
+            error.functionName = functionMatch[1];
+        }
+
+        for (let j = i; j < Math.min(i + 3, lines.length); j++) {
+            if (j > i && (STACK_FRAME.test(lines[j]) || ERROR_LINE.test(lines[j]) && !LOCATION.test(lines[j]))) {
+                break;
+            }
+            const location = lines[j].match(LOCATION);
+            if (location) {
+                error.file = location[1];
+                error.line = parseInt(location[2], 10);
+                error.column = location[3] ? parseInt(location[3], 10) : undefined;
+                break;
+            }
+        }
+
+        errors.push(error);
+    }
+
+    return errors;
+}
+
+/**
+ * Rejection of a Quarkdown invocation that ran and exited abnormally, keeping its raw console output.
+ */
+export class QuarkdownCommandError extends Error {
+    constructor(message: string, public readonly output: string) {
+        super(message);
+        this.name = 'QuarkdownCommandError';
+    }
+}
@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type CompileTarget = 'html' | 'pdf';
+
+/**
+ * A named build configuration, from the `quarkdownPreview.compileProfiles` setting or
+ * the `profiles` array of `.vscode/quarkdown.json`. Paths are relative to the workspace folder.
+ */
+export interface CompileProfile {
+    name: string;
+    /** Entry file; the root document of the active editor when omitted */
+    entry?: string;
+    /** Defaults to `output` */
+    outputDirectory?: string;
+    /** Defaults to `html` */
+    target?: CompileTarget;
+    /** Extra command line flags passed to `quarkdown c` */
+    args?: string[];
+    /** Whether to empty the output directory before compiling */
+    clean?: boolean;
+}
+
+export interface ProfileValidation {
+    profiles: CompileProfile[];
+    errors: string[];
+}
+
+export const DEFAULT_PROFILE_OUTPUT = 'output';
+
+/**
+ * Keeps the well-formed profiles of `raw` and describes the others. `source` names
+ * where the profiles come from, for the error messages.
+ */
+export function validateProfiles(raw: unknown, source: string): ProfileValidation {
+    const result: ProfileValidation = { profiles: [], errors: [] };
+    if (raw === undefined || raw === null) {
+        return result;
+    }
+    if (!Array.isArray(raw)) {
+        result.errors.push(`${source}: profiles must be an array`);
+        return result;
+    }
+
+    raw.forEach((value, index) => {
+        const where = `${source}: profile ${index + 1}`;
+        if (typeof value !== 'object' || value === null) {
+            result.errors.push(`${where} is not an object`);
+            return;
+        }
+        const profile = value as Record<string, unknown>;
+        if (typeof profile.name !== 'string' || !profile.name.trim()) {
+            result.errors.push(`${where} has no name`);
+            return;
+        }
+        if (profile.target !== undefined && profile.target !== 'html' && profile.target !== 'pdf') {
+            result.errors.push(`${where} (${profile.name}) has an unknown target '${profile.target}'`);
+            return;
+        }
+        if (profile.args !== undefined && (!Array.isArray(profile.args) || profile.args.some(arg => typeof arg !== 'string'))) {
+            result.errors.push(`${where} (${profile.name}) has args that are not a list of strings`);
+            return;
+        }
+        for (const key of ['entry', 'outputDirectory'] as const) {
+            if (profile[key] !== undefined && typeof profile[key] !== 'string') {
+                result.errors.push(`${where} (${profile.name}) has a ${key} that is not a string`);
+                return;
+            }
+        }
+
+        result.profiles.push({
+            name: profile.name.trim(),
+            entry: profile.entry as string | undefined,
+            outputDirectory: profile.outputDirectory as string | undefined,
+            target: profile.target as CompileTarget | undefined,
+            args: profile.args as string[] | undefined,
+            clean: profile.clean === true
+        });
+    });
+
+    return result;
+}
+
+/**
+ * Concatenates profile lists; a profile replaces an earlier one with the same name.
+ */
+export function mergeProfiles(...lists: CompileProfile[][]): CompileProfile[] {
+    const byName = new Map<string, CompileProfile>();
+    for (const profile of lists.flat()) {
+        byName.delete(profile.name);
+        byName.set(profile.name, profile);
+    }
+    return [...byName.values()];
+}
+
+export function resolveProfileOutput(profile: CompileProfile, workspaceDir: string): string {
+    return path.resolve(workspaceDir, profile.outputDirectory || DEFAULT_PROFILE_OUTPUT);
+}
+
+/**
+ * Arguments of the `quarkdown c` invocation for `profile`.
+ */
+export function buildProfileArgs(profile: CompileProfile, entryPath: string, outputDir: string): string[] {
+    const args = ['c', entryPath, '-o', outputDir];
+    if (profile.target === 'pdf') {
+        args.push('--pdf');
+    }
+    return args.concat(profile.args ?? []);
+}
+
+/**
+ * Whether `outputDir` can be emptied: never the workspace folder, one of its parents,
+ * or a directory containing the entry file.
+ */
+export function isSafeToClean(outputDir: string, workspaceDir: string, entryPath: string): boolean {
+    const contains = (parent: string, child: string) => {
+        const relative = path.relative(parent, child);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+    };
+    return !contains(outputDir, workspaceDir) && !contains(outputDir, entryPath);
+}
+
+const SOURCE_EXTENSIONS = ['.qd', '.qmd'];
+
+/**
+ * Whether `outputDir` holds nothing but Quarkdown output, so that it can be emptied without
+ * asking: it is missing or empty, or has only PDF files and HTML output directories, with an
+ * `index.html`, none of which contains a Quarkdown source.
+ */
+export function containsOnlyOutput(outputDir: string): boolean {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(outputDir, { withFileTypes: true });
+    } catch {
+        return !fs.existsSync(outputDir);
+    }
+    return entries.every(entry => {
+        const entryPath = path.join(outputDir, entry.name);
+        if (entry.isDirectory()) {
+            return fs.existsSync(path.join(entryPath, 'index.html')) && !containsSource(entryPath);
+        }
+        return entry.isFile() && path.extname(entry.name).toLowerCase() === '.pdf';
+    });
+}
+
+function containsSource(dir: string): boolean {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+        return false;
+    }
+    return entries.some(entry => entry.isDirectory()
+        ? containsSource(path.join(dir, entry.name))
+        : SOURCE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()));
+}
+
+export type QuarkdownTaskCommand = 'compile' | 'pdf' | 'serve';
+
+/**
+ * Arguments of the `quarkdown c` invocation of a `quarkdown` task. `serve` keeps running:
+ * it recompiles on changes and serves the output with live reload.
+ */
+export function buildTaskArgs(
+    command: QuarkdownTaskCommand,
+    entryPath: string,
+    outputDir: string,
+    extraArgs: string[] = [],
+    port?: number
+): string[] {
+    if (command !== 'serve') {
+        return buildProfileArgs({ name: command, target: command === 'pdf' ? 'pdf' : 'html', args: extraArgs }, entryPath, outputDir);
+    }
+    const args = ['c', entryPath, '-o', outputDir, '--preview', '--watch'];
+    if (port !== undefined) {
+        args.push('--server-port', port.toString());
+    }
+    return args.concat(extraArgs);
+}
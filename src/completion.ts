@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import { codeBlockLines, findCallContext } from './sourceParser';
+import {
+    CatalogFunction,
+    STDLIB_FUNCTIONS,
+    STDLIB_VERSION,
+    activeParameterIndex,
+    findStdlibFunction,
+    formatSignature,
+    fromUserFunction
+} from './stdlibCatalog';
+import { QuarkdownSymbolIndex } from './symbolIndex';
+
+// `.name` or `::name` being typed at the end of the line prefix
+const FUNCTION_NAME_PREFIX = /(?:^|[^\w\\.])\.([A-Za-z_]\w*)?$|::([A-Za-z_]\w*)?$/;
+const WORD_PREFIX = /[A-Za-z_]\w*$/;
+
+/**
+ * Looks up a function by name: user-defined functions shadow the standard library.
+ */
+export function resolveFunction(name: string): CatalogFunction | undefined {
+    const userFunction = QuarkdownSymbolIndex.getInstance().findFunction(name);
+    return userFunction ? fromUserFunction(userFunction) : findStdlibFunction(name);
+}
+
+/**
+ * Markdown documentation of a function: description, parameters and example.
+ */
+export function describeFunction(catalogFunction: CatalogFunction): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(catalogFunction.description);
+
+    const documented = catalogFunction.parameters.filter(p => p.description);
+    if (documented.length > 0) {
+        markdown.appendMarkdown('\n\n');
+        for (const parameter of documented) {
+            markdown.appendMarkdown(`- \`${parameter.name}\`${parameter.optional ? ' *(optional)*' : ''}: ${parameter.description}`);
+            if (parameter.values) {
+                markdown.appendMarkdown(` One of ${parameter.values.map(v => `\`${v}\``).join(', ')}.`);
+            }
+            markdown.appendMarkdown('\n');
+        }
+    }
+
+    if (catalogFunction.example) {
+        markdown.appendMarkdown('\n');
+        markdown.appendCodeblock(catalogFunction.example, 'quarkdown');
+    }
+    if (catalogFunction.module !== 'User') {
+        markdown.appendMarkdown(`\n\n*${catalogFunction.module} · Quarkdown ${STDLIB_VERSION}*`);
+    }
+    return markdown;
+}
+
+/**
+ * Whether `position` is inside a fenced code block, where nothing is a function call.
+ */
+export function isInCodeBlock(document: vscode.TextDocument, position: vscode.Position): boolean {
+    const lines: string[] = [];
+    for (let line = 0; line <= position.line; line++) {
+        lines.push(document.lineAt(line).text);
+    }
+    return codeBlockLines(lines)[position.line];
+}
+
+/**
+ * Completes function names after `.` and `::`, named parameters inside a call
+ * and enum values inside an argument.
+ */
+export class QuarkdownCompletionProvider implements vscode.CompletionItemProvider {
+    public static readonly triggerCharacters = ['.', ':', '{'];
+
+    public async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        if (isInCodeBlock(document, position)) {
+            return undefined;
+        }
+        const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+
+        const nameMatch = FUNCTION_NAME_PREFIX.exec(linePrefix);
+        if (nameMatch) {
+            const typed = nameMatch[1] ?? nameMatch[2] ?? '';
+            const range = new vscode.Range(position.translate(0, -typed.length), position);
+            await QuarkdownSymbolIndex.getInstance().ready();
+            return this.functionItems(range);
+        }
+
+        const context = findCallContext(linePrefix);
+        const catalogFunction = context && resolveFunction(context.functionName);
+        if (!context || !catalogFunction) {
+            return undefined;
+        }
+
+        const typed = WORD_PREFIX.exec(linePrefix)?.[0] ?? '';
+        const range = new vscode.Range(position.translate(0, -typed.length), position);
+
+        if (context.insideArgument) {
+            const parameter = catalogFunction.parameters[activeParameterIndex(catalogFunction, context)];
+            return parameter?.values?.map(value => {
+                const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+                item.detail = `${parameter.name}: ${parameter.type}`;
+                item.range = range;
+                return item;
+            });
+        }
+
+        // Named parameters are only written after whitespace
+        if (!/(^|\s)[A-Za-z_]*$/.test(linePrefix)) {
+            return undefined;
+        }
+        return catalogFunction.parameters
+            .filter(p => !p.body && !context.namedArguments.includes(p.name))
+            .map(parameter => {
+                const item = new vscode.CompletionItem(`${parameter.name}:`, vscode.CompletionItemKind.Property);
+                item.insertText = new vscode.SnippetString(`${parameter.name}:{$1}`);
+                item.detail = parameter.type;
+                item.documentation = parameter.description;
+                item.range = range;
+                if (parameter.values) {
+                    item.command = { command: 'editor.action.triggerSuggest', title: 'Suggest values' };
+                }
+                return item;
+            });
+    }
+
+    private functionItems(range: vscode.Range): vscode.CompletionItem[] {
+        const index = QuarkdownSymbolIndex.getInstance();
+        const items: vscode.CompletionItem[] = [];
+        const seen = new Set<string>();
+
+        for (const definition of index.getFunctions()) {
+            if (seen.has(definition.name)) {
+                continue;
+            }
+            seen.add(definition.name);
+            const catalogFunction = fromUserFunction(definition, `Defined in \`${vscode.workspace.asRelativePath(definition.uri)}\`.`);
+            items.push(this.functionItem(catalogFunction, range));
+        }
+
+        for (const variable of index.getVariables()) {
+            if (seen.has(variable.name)) {
+                continue;
+            }
+            seen.add(variable.name);
+            const item = new vscode.CompletionItem(variable.name, vscode.CompletionItemKind.Variable);
+            item.detail = variable.value !== undefined ? `= ${variable.value}` : 'variable';
+            item.range = range;
+            items.push(item);
+        }
+
+        for (const catalogFunction of STDLIB_FUNCTIONS) {
+            if (!seen.has(catalogFunction.name)) {
+                items.push(this.functionItem(catalogFunction, range));
+            }
+        }
+
+        return items;
+    }
+
+    private functionItem(catalogFunction: CatalogFunction, range: vscode.Range): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(catalogFunction.name, vscode.CompletionItemKind.Function);
+        item.detail = formatSignature(catalogFunction).label;
+        item.documentation = describeFunction(catalogFunction);
+        item.range = range;
+        if (catalogFunction.parameters.length > 0) {
+            item.command = { command: 'editor.action.triggerParameterHints', title: 'Show parameters' };
+        }
+        return item;
+    }
+}
+
+/**
+ * Shows the parameters of the innermost call around the cursor.
+ */
+export class QuarkdownSignatureHelpProvider implements vscode.SignatureHelpProvider {
+    public static readonly triggerCharacters = [' ', '{'];
+    public static readonly retriggerCharacters = [':', '}'];
+
+    public provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.SignatureHelp | undefined {
+        if (isInCodeBlock(document, position)) {
+            return undefined;
+        }
+        const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+        const context = findCallContext(linePrefix);
+        const catalogFunction = context && resolveFunction(context.functionName);
+        if (!context || !catalogFunction || catalogFunction.parameters.length === 0) {
+            return undefined;
+        }
+
+        const { label, parameterOffsets } = formatSignature(catalogFunction);
+        const signature = new vscode.SignatureInformation(label, describeFunction(catalogFunction));
+        signature.parameters = catalogFunction.parameters.map((parameter, index) => {
+            const documentation = parameter.values
+                ? `${parameter.description} One of ${parameter.values.join(', ')}.`
+                : parameter.description;
+            return new vscode.ParameterInformation(parameterOffsets[index], documentation);
+        });
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        help.activeParameter = activeParameterIndex(catalogFunction, context);
+        return help;
+    }
+}
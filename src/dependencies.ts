@@ -0,0 +1,65 @@
+import * as path from 'path';
+import { codeBlockLines } from './sourceParser';
+import { SourceReader, collectIncludeChain } from './includes';
+
+// Link and image targets: `[text](target)`, `![alt](target "title")`
+const LINK_TARGET = /\]\(\s*<?([^)\s>]+)/g;
+// Reference definitions: `[id]: target`
+const REFERENCE_DEFINITION = /^\s{0,3}\[[^\]]+\]:\s*<?([^\s>]+)/;
+// Function arguments that look like file names, e.g. `.csv {data/results.csv}`
+const FILE_ARGUMENT = /\{\s*([^{}\s]+\.[A-Za-z0-9]+)\s*\}/g;
+const URL_SCHEME = /^[A-Za-z][\w+.-]*:/;
+
+function decodePath(reference: string): string {
+    try {
+        return decodeURI(reference);
+    } catch {
+        return reference;
+    }
+}
+
+/**
+ * Finds the files a Quarkdown document depends on: the sources of its `.include` chain
+ * and the local images, stylesheets and data files they reference. Only existing files
+ * are returned, the document itself excluded.
+ */
+export function findDependencies(filePath: string, read: SourceReader, exists: (filePath: string) => boolean): string[] {
+    const root = path.resolve(filePath);
+    const dependencies = new Set<string>();
+
+    for (const source of collectIncludeChain(root, read)) {
+        if (source.filePath !== root) {
+            dependencies.add(source.filePath);
+        }
+
+        const lines = source.text.split(/\r?\n/);
+        const inCode = codeBlockLines(lines);
+        const baseDir = path.dirname(source.filePath);
+
+        lines.forEach((line, index) => {
+            if (inCode[index]) {
+                return;
+            }
+            const references = [
+                ...[...line.matchAll(LINK_TARGET)].map(match => match[1]),
+                ...[...line.matchAll(FILE_ARGUMENT)].map(match => match[1])
+            ];
+            const definition = REFERENCE_DEFINITION.exec(line);
+            if (definition) {
+                references.push(definition[1]);
+            }
+
+            for (const reference of references) {
+                if (URL_SCHEME.test(reference) || reference.startsWith('#')) {
+                    continue;
+                }
+                const referencePath = path.resolve(baseDir, decodePath(reference.replace(/[?#].*$/, '')));
+                if (referencePath !== root && exists(referencePath)) {
+                    dependencies.add(referencePath);
+                }
+            }
+        });
+    }
+
+    return [...dependencies];
+}
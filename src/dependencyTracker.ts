@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { findDependencies } from './dependencies';
+import { readQuarkdownSource } from './language';
+import { QuarkdownLogger } from './logger';
+
+function isFile(filePath: string): boolean {
+    try {
+        return fs.statSync(filePath).isFile();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Tracks the files each previewed document depends on and watches them on disk, so that
+ * previews can be recompiled when an included chapter, image or stylesheet changes,
+ * inside or outside VS Code.
+ */
+export class PreviewDependencyTracker implements vscode.Disposable {
+    // Dependencies per previewed file
+    private dependencies = new Map<string, Set<string>>();
+    // One non-recursive watcher per directory containing dependencies
+    private watchers = new Map<string, vscode.FileSystemWatcher>();
+    private logger = QuarkdownLogger.getInstance();
+
+    /**
+     * @param onDependencyChanged called with the previews depending on a file that changed on disk
+     */
+    constructor(private onDependencyChanged: (previewPaths: string[], changedPath: string) => void) { }
+
+    /**
+     * Resolves the dependencies of the previewed `document` again, e.g. after it was edited.
+     */
+    public track(document: vscode.TextDocument): void {
+        const filePath = path.resolve(document.uri.fsPath);
+        const read = (sourcePath: string) => sourcePath === filePath ? document.getText() : readQuarkdownSource(sourcePath);
+        const dependencies = new Set(findDependencies(filePath, read, isFile));
+        // The previewed file itself can be changed outside VS Code as well
+        dependencies.add(filePath);
+
+        this.dependencies.set(filePath, dependencies);
+        this.updateWatchers();
+        this.logger.debug(`Preview of ${filePath} depends on ${dependencies.size - 1} file(s)`);
+    }
+
+    public untrack(filePath: string): void {
+        if (this.dependencies.delete(path.resolve(filePath))) {
+            this.updateWatchers();
+        }
+    }
+
+    /**
+     * @returns the previewed files that depend on `filePath`, excluding `filePath` itself
+     */
+    public getDependents(filePath: string): string[] {
+        const resolved = path.resolve(filePath);
+        const dependents: string[] = [];
+        for (const [previewPath, dependencies] of this.dependencies) {
+            if (previewPath !== resolved && dependencies.has(resolved)) {
+                dependents.push(previewPath);
+            }
+        }
+        return dependents;
+    }
+
+    public dispose(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers.clear();
+        this.dependencies.clear();
+    }
+
+    private updateWatchers(): void {
+        const directories = new Set<string>();
+        for (const dependencies of this.dependencies.values()) {
+            dependencies.forEach(dependency => directories.add(path.dirname(dependency)));
+        }
+
+        for (const [directory, watcher] of this.watchers) {
+            if (!directories.has(directory)) {
+                watcher.dispose();
+                this.watchers.delete(directory);
+            }
+        }
+
+        for (const directory of directories) {
+            if (this.watchers.has(directory)) {
+                continue;
+            }
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(directory), '*'));
+            const onEvent = (uri: vscode.Uri) => this.handleChange(uri.fsPath);
+            watcher.onDidChange(onEvent);
+            watcher.onDidCreate(onEvent);
+            watcher.onDidDelete(onEvent);
+            this.watchers.set(directory, watcher);
+        }
+    }
+
+    private handleChange(changedPath: string): void {
+        const resolved = path.resolve(changedPath);
+        const previewPaths = [...this.dependencies]
+            .filter(([, dependencies]) => dependencies.has(resolved))
+            .map(([previewPath]) => previewPath);
+        if (previewPaths.length > 0) {
+            this.onDependencyChanged(previewPaths, resolved);
+        }
+    }
+}
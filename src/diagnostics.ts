@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { CompileError, parseCompileErrors } from './compileErrors';
+
+/**
+ * Where a compilation ran. Previews compile a shadow copy of the sources, whose paths
+ * must be mapped back to the original files to place the diagnostics.
+ */
+export interface CompileLocation {
+    cwd: string;
+    shadowDir?: string;
+    sourceDir?: string;
+}
+
+/**
+ * Shows Quarkdown compilation errors in the Problems panel and as squiggles in the
+ * compiled document and its included files.
+ */
+export class CompileDiagnostics implements vscode.Disposable {
+    private collection = vscode.languages.createDiagnosticCollection('quarkdown');
+    // Files that received diagnostics, per compiled document
+    private reportedFiles = new Map<string, vscode.Uri[]>();
+
+    /**
+     * Replaces the diagnostics of the compilation of `document` with the errors found in `output`.
+     *
+     * @returns the number of reported errors
+     */
+    public report(document: vscode.TextDocument, output: string, location: CompileLocation): number {
+        this.clear(document);
+
+        const errors = parseCompileErrors(output);
+        if (errors.length === 0) {
+            return 0;
+        }
+
+        const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+        for (const error of errors) {
+            const filePath = this.resolveSourcePath(error, document, location);
+            const diagnostic = new vscode.Diagnostic(
+                this.getRange(error, filePath),
+                error.message,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = 'quarkdown';
+            if (error.functionName) {
+                diagnostic.code = `.${error.functionName}`;
+            }
+
+            const diagnostics = diagnosticsByFile.get(filePath) ?? [];
+            diagnostics.push(diagnostic);
+            diagnosticsByFile.set(filePath, diagnostics);
+        }
+
+        const uris: vscode.Uri[] = [];
+        for (const [filePath, diagnostics] of diagnosticsByFile) {
+            const uri = vscode.Uri.file(filePath);
+            this.collection.set(uri, diagnostics);
+            uris.push(uri);
+        }
+        this.reportedFiles.set(document.uri.fsPath, uris);
+
+        return errors.length;
+    }
+
+    /**
+     * Location of the first error reported for the compilation of `document`, if any.
+     */
+    public getFirstError(document: vscode.TextDocument): vscode.Location | undefined {
+        for (const uri of this.reportedFiles.get(document.uri.fsPath) ?? []) {
+            const diagnostic = this.collection.get(uri)?.[0];
+            if (diagnostic) {
+                return new vscode.Location(uri, diagnostic.range);
+            }
+        }
+        return undefined;
+    }
+
+    public clear(document: vscode.TextDocument): void {
+        for (const uri of this.reportedFiles.get(document.uri.fsPath) ?? []) {
+            this.collection.delete(uri);
+        }
+        this.reportedFiles.delete(document.uri.fsPath);
+    }
+
+    public dispose(): void {
+        this.collection.dispose();
+        this.reportedFiles.clear();
+    }
+
+    private resolveSourcePath(error: CompileError, document: vscode.TextDocument, location: CompileLocation): string {
+        if (!error.file) {
+            return document.uri.fsPath;
+        }
+
+        let filePath = path.resolve(location.cwd, error.file);
+        if (location.shadowDir && location.sourceDir) {
+            const relativePath = path.relative(location.shadowDir, filePath);
+            if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+                filePath = path.join(location.sourceDir, relativePath);
+            }
+        }
+
+        return fs.existsSync(filePath) ? filePath : document.uri.fsPath;
+    }
+
+    private getRange(error: CompileError, filePath: string): vscode.Range {
+        const lines = this.readLines(filePath);
+        const functionCall = error.functionName ? new RegExp(`\\.${error.functionName}(?![\\w])`) : undefined;
+
+        if (error.line !== undefined) {
+            const line = Math.max(0, Math.min(error.line - 1, lines.length - 1));
+            const text = lines[line] ?? '';
+            const callMatch = functionCall ? functionCall.exec(text) : null;
+            if (callMatch) {
+                return new vscode.Range(line, callMatch.index, line, callMatch.index + callMatch[0].length);
+            }
+            const column = Math.max(0, Math.min((error.column ?? 1) - 1, text.length));
+            const token = /^\S+/.exec(text.slice(column));
+            return new vscode.Range(line, column, line, token ? column + token[0].length : text.length);
+        }
+
+        // No location given: point at the first call of the failing function, if any
+        if (functionCall) {
+            for (let line = 0; line < lines.length; line++) {
+                const callMatch = functionCall.exec(lines[line]);
+                if (callMatch) {
+                    return new vscode.Range(line, callMatch.index, line, callMatch.index + callMatch[0].length);
+                }
+            }
+        }
+
+        return new vscode.Range(0, 0, 0, lines[0]?.length ?? 0);
+    }
+
+    private readLines(filePath: string): string[] {
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath);
+        if (openDocument) {
+            return openDocument.getText().split(/\r?\n/);
+        }
+        try {
+            return fs.readFileSync(filePath, 'utf8').split(/\r?\n/);
+        } catch {
+            return [];
+        }
+    }
+}
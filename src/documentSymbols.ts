@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { OutlineKind, OutlineNode, buildOutline, findFoldingRegions } from './outline';
+
+const SYMBOL_KINDS: Record<OutlineKind, vscode.SymbolKind> = {
+    heading: vscode.SymbolKind.String,
+    break: vscode.SymbolKind.Event,
+    function: vscode.SymbolKind.Function,
+    block: vscode.SymbolKind.Struct
+};
+
+/**
+ * Feeds the Outline view and breadcrumbs with headings, page breaks, `.function`
+ * definitions and block calls.
+ */
+export class QuarkdownDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    public provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        return buildOutline(document.getText()).map(node => this.toSymbol(document, node));
+    }
+
+    private toSymbol(document: vscode.TextDocument, node: OutlineNode): vscode.DocumentSymbol {
+        const range = new vscode.Range(node.line, 0, node.endLine, document.lineAt(node.endLine).text.length);
+        const selectionRange = document.lineAt(node.line).range;
+        // Document symbols must have a non-empty name
+        const symbol = new vscode.DocumentSymbol(node.name.trim() || '(untitled)', node.detail, SYMBOL_KINDS[node.kind], range, selectionRange);
+        symbol.children = node.children.map(child => this.toSymbol(document, child));
+        return symbol;
+    }
+}
+
+/**
+ * Folds heading sections, multi-line call bodies and fenced code blocks.
+ */
+export class QuarkdownFoldingRangeProvider implements vscode.FoldingRangeProvider {
+    public provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        return findFoldingRegions(document.getText()).map(region => new vscode.FoldingRange(region.start, region.end));
+    }
+}
@@ -1,11 +1,26 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { QuarkdownPreviewManager, validateQuarkdownInstallation } from './quarkdownPreview';
+import * as path from 'path';
+import { PreviewPanelState, QuarkdownPreviewManager, validateQuarkdownInstallation } from './quarkdownPreview';
+import { QuarkdownLogger } from './logger';
+import { QUARKDOWN_SELECTOR, isQuarkdownDocument, isQuarkdownFile, readQuarkdownSource } from './language';
+import { collectIncludeChain } from './includes';
+import { findDocumentType } from './sourceParser';
+import { QuarkdownSymbolIndex } from './symbolIndex';
+import { findProjectFiles, resolveRootDocument } from './projectRoot';
+import { QuarkdownProjectsProvider, RunningPreviewItem, RunningPreviewsProvider } from './views';
+import { QuarkdownCompletionProvider, QuarkdownSignatureHelpProvider } from './completion';
+import { QuarkdownHoverProvider } from './hover';
+import { QuarkdownDefinitionProvider, QuarkdownReferenceProvider, QuarkdownRenameProvider } from './navigation';
+import { QuarkdownDocumentSymbolProvider, QuarkdownFoldingRangeProvider } from './documentSymbols';
+import { CompileProfile, CompileTarget, ProfileValidation, mergeProfiles, validateProfiles } from './compileProfiles';
+import { QUARKDOWN_TASK_TYPE, QuarkdownTaskProvider } from './tasks';
 
 let previewManager: QuarkdownPreviewManager;
 let installationCheckCache: { isValid: boolean; result: boolean; timestamp: number } | null = null;
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes cache
+const LAST_PROFILE_KEY = 'quarkdownPreview.lastCompileProfile';
 
 // Lazy installation check
 async function checkInstallationIfNeeded(showWarning: boolean = true): Promise<boolean> {
@@ -59,27 +74,130 @@ function clearInstallationCache() {
 	installationCheckCache = null;
 }
 
+// Document a command runs on: the file of a clicked explorer entry, editor tab or view item,
+// or the active editor's document
+async function getCommandDocument(resource?: vscode.Uri | vscode.TreeItem): Promise<vscode.TextDocument | undefined> {
+	const uri = resource instanceof vscode.Uri ? resource : resource?.resourceUri;
+	if (uri) {
+		if (!isQuarkdownFile(uri.fsPath)) {
+			vscode.window.showInformationMessage(`${path.basename(uri.fsPath)} is not a .qmd or .qd file`);
+			return undefined;
+		}
+		return vscode.workspace.openTextDocument(uri);
+	}
+
+	const activeEditor = vscode.window.activeTextEditor;
+	if (!activeEditor) {
+		vscode.window.showInformationMessage('Please open a .qmd file first');
+		return undefined;
+	}
+
+	const document = activeEditor.document;
+	if (!isQuarkdownDocument(document)) {
+		vscode.window.showInformationMessage('Current file is not a .qmd or .qd file');
+		return undefined;
+	}
+	return document;
+}
+
+// Root documents a command runs on: those of the files selected in the explorer, or of the
+// document found by getCommandDocument. Chapters are previewed and compiled as part of their project.
+async function getCommandRootDocuments(
+	resource?: vscode.Uri | vscode.Uri[] | vscode.TreeItem,
+	selection?: unknown
+): Promise<vscode.TextDocument[]> {
+	// Editor title menus pass an editor identifier ({ groupId, editorIndex }) instead of a selection
+	const selected: unknown[] = Array.isArray(resource) ? resource : Array.isArray(selection) ? selection : [];
+	const uris = selected.filter((uri): uri is vscode.Uri => uri instanceof vscode.Uri && isQuarkdownFile(uri.fsPath));
+	let documents: vscode.TextDocument[];
+	if (uris.length > 0) {
+		documents = await Promise.all(uris.map(uri => vscode.workspace.openTextDocument(uri)));
+	} else {
+		const document = await getCommandDocument(Array.isArray(resource) ? undefined : resource);
+		documents = document ? [document] : [];
+	}
+
+	const roots = new Map<string, vscode.TextDocument>();
+	for (const document of documents) {
+		const root = await resolveRootDocument(document);
+		roots.set(root.uri.toString(), root);
+	}
+	return [...roots.values()];
+}
+
+// Compile profiles of a workspace folder: the setting first, then .vscode/quarkdown.json,
+// whose profiles replace those of the same name
+async function loadCompileProfiles(folder: vscode.WorkspaceFolder): Promise<ProfileValidation> {
+	const fromSettings = validateProfiles(
+		vscode.workspace.getConfiguration('quarkdownPreview', folder.uri).get('compileProfiles'),
+		'quarkdownPreview.compileProfiles'
+	);
+
+	let fromFile: ProfileValidation = { profiles: [], errors: [] };
+	const fileUri = vscode.Uri.joinPath(folder.uri, '.vscode', 'quarkdown.json');
+	try {
+		const content = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+		try {
+			fromFile = validateProfiles(JSON.parse(content).profiles, '.vscode/quarkdown.json');
+		} catch (error) {
+			fromFile.errors.push(`.vscode/quarkdown.json: ${error instanceof Error ? error.message : error}`);
+		}
+	} catch {
+		// No profiles file
+	}
+
+	return {
+		profiles: mergeProfiles(fromSettings.profiles, fromFile.profiles),
+		errors: [...fromSettings.errors, ...fromFile.errors]
+	};
+}
+
+// Entry document of a profile: its configured entry file, or the project of the active document
+async function getProfileDocument(
+	profile: CompileProfile,
+	folder: vscode.WorkspaceFolder,
+	activeDocument?: vscode.TextDocument
+): Promise<vscode.TextDocument | undefined> {
+	if (profile.entry) {
+		const entryPath = path.resolve(folder.uri.fsPath, profile.entry);
+		try {
+			return await vscode.workspace.openTextDocument(vscode.Uri.file(entryPath));
+		} catch {
+			vscode.window.showErrorMessage(`Entry file of profile "${profile.name}" not found: ${entryPath}`);
+			return undefined;
+		}
+	}
+
+	if (!activeDocument || !isQuarkdownDocument(activeDocument)) {
+		vscode.window.showInformationMessage(`Profile "${profile.name}" has no entry file: open a .qmd or .qd file first`);
+		return undefined;
+	}
+	return resolveRootDocument(activeDocument);
+}
+
+// When the preview recompiles: on save, while typing, or only on explicit refresh
+function getUpdateMode(): 'onSave' | 'onType' | 'manual' {
+	return vscode.workspace.getConfiguration('quarkdownPreview').get<'onSave' | 'onType' | 'manual'>('updateMode', 'onType');
+}
+
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export function activate(context: vscode.ExtensionContext) {
-	console.log('Quarkdown Preview extension activated');
+	const logger = QuarkdownLogger.getInstance();
+	logger.info('Quarkdown Preview extension activated');
 
 	// Initialize preview manager
 	previewManager = QuarkdownPreviewManager.getInstance();
 
+	// Remove the preview cache left by windows that did not shut down cleanly
+	previewManager.cleanPreviewCache();
+
 	// Register open preview command
 	const openPreviewCommand = vscode.commands.registerCommand(
 		'quarkdown-preview.openPreview',
-		async () => {
-			const activeEditor = vscode.window.activeTextEditor;
-			if (!activeEditor) {
-				vscode.window.showInformationMessage('Please open a .qmd file first');
-				return;
-			}
-
-			const document = activeEditor.document;
-			if (!document.fileName.endsWith('.qmd') && !document.fileName.endsWith('.qd')) {
-				vscode.window.showInformationMessage('Current file is not a .qmd or .qd file');
+		async (resource?: vscode.Uri | vscode.Uri[] | vscode.TreeItem, selection?: unknown) => {
+			const documents = await getCommandRootDocuments(resource, selection);
+			if (documents.length === 0) {
 				return;
 			}
 
@@ -89,33 +207,64 @@ export function activate(context: vscode.ExtensionContext) {
 				return; // Stop execution if not installed
 			}
 
-			await previewManager.openPreview(document, false);
+			for (const document of documents) {
+				// Several documents at once get a preview each, locked to its document
+				await previewManager.openPreview(document, false, documents.length > 1);
+			}
 		}
 	);
 
 	// Register open preview to side command
 	const openPreviewToSideCommand = vscode.commands.registerCommand(
 		'quarkdown-preview.openPreviewToSide',
-		async () => {
-			const activeEditor = vscode.window.activeTextEditor;
-			if (!activeEditor) {
-				vscode.window.showInformationMessage('Please open a .qmd file first');
+		async (resource?: vscode.Uri | vscode.Uri[] | vscode.TreeItem, selection?: unknown) => {
+			const documents = await getCommandRootDocuments(resource, selection);
+			if (documents.length === 0) {
 				return;
 			}
 
-			const document = activeEditor.document;
-			if (!document.fileName.endsWith('.qmd') && !document.fileName.endsWith('.qd')) {
-				vscode.window.showInformationMessage('Current file is not a .qmd or .qd file');
+			// Check installation before using functionality
+			const isInstalled = await checkInstallationIfNeeded();
+			if (!isInstalled) {
+				return; // Stop execution if not installed
+			}
+
+			for (const document of documents) {
+				await previewManager.openPreview(document, true, documents.length > 1);
+			}
+		}
+	);
+
+	// Register open presenter command, for slide decks
+	const openPresenterCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.openPresenter',
+		async (resource?: vscode.Uri | vscode.Uri[] | vscode.TreeItem, selection?: unknown) => {
+			const [document] = await getCommandRootDocuments(resource, selection);
+			if (!document) {
 				return;
 			}
 
+			// The document type may be set in an included setup file
+			const documentType = collectIncludeChain(document.uri.fsPath, readQuarkdownSource)
+				.map(source => findDocumentType(source.text))
+				.find(type => type !== undefined);
+			if (documentType !== 'slides') {
+				const choice = await vscode.window.showInformationMessage(
+					`${path.basename(document.uri.fsPath)} is not a slide deck: presenter mode needs .doctype {slides}`,
+					'Open Anyway'
+				);
+				if (choice !== 'Open Anyway') {
+					return;
+				}
+			}
+
 			// Check installation before using functionality
 			const isInstalled = await checkInstallationIfNeeded();
 			if (!isInstalled) {
 				return; // Stop execution if not installed
 			}
 
-			await previewManager.openPreview(document, true);
+			await previewManager.openPresenter(document);
 		}
 	);
 
@@ -136,16 +285,123 @@ export function activate(context: vscode.ExtensionContext) {
 	// Register compile document command
 	const compileCommand = vscode.commands.registerCommand(
 		'quarkdown-preview.compile',
+		async (resource?: vscode.Uri | vscode.Uri[] | vscode.TreeItem, selection?: unknown) => {
+			const documents = await getCommandRootDocuments(resource, selection);
+			if (documents.length === 0) {
+				return;
+			}
+
+			// Check installation before using functionality
+			const isInstalled = await checkInstallationIfNeeded();
+			if (!isInstalled) {
+				return; // Stop execution if not installed
+			}
+
+			// Several files are compiled in one batch instead of asking for an output folder each
+			if (documents.length === 1) {
+				await previewManager.compileDocument(documents[0], false);
+			} else {
+				await previewManager.compileBatch(documents.map(document => document.uri.fsPath), 'html');
+			}
+		}
+	);
+
+	// Register compile to PDF command
+	const compileToPdfCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.compileToPdf',
+		async (resource?: vscode.Uri | vscode.Uri[] | vscode.TreeItem, selection?: unknown) => {
+			const documents = await getCommandRootDocuments(resource, selection);
+			if (documents.length === 0) {
+				return;
+			}
+
+			// Check installation before using functionality
+			const isInstalled = await checkInstallationIfNeeded();
+			if (!isInstalled) {
+				return; // Stop execution if not installed
+			}
+
+			// Several files are compiled in one batch instead of asking for an output folder each
+			if (documents.length === 1) {
+				await previewManager.compileDocument(documents[0], true);
+			} else {
+				await previewManager.compileBatch(documents.map(document => document.uri.fsPath), 'pdf');
+			}
+		}
+	);
+
+	// Register refresh preview command, mainly useful with the "manual" update mode
+	const refreshPreviewCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.refreshPreview',
 		async () => {
 			const activeEditor = vscode.window.activeTextEditor;
-			if (!activeEditor) {
-				vscode.window.showInformationMessage('Please open a .qmd file first');
+			const document = activeEditor && isQuarkdownDocument(activeEditor.document)
+				? await resolveRootDocument(activeEditor.document)
+				: activeEditor?.document;
+			if (!document || !previewManager.hasPreview(document)) {
+				vscode.window.showInformationMessage('No Quarkdown preview is open for the current file');
+				return;
+			}
+
+			await previewManager.recompileForPreview(document);
+		}
+	);
+
+	// Register compile with profile command
+	const compileWithProfileCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.compileWithProfile',
+		async () => {
+			const activeDocument = vscode.window.activeTextEditor?.document;
+			const folder = (activeDocument && vscode.workspace.getWorkspaceFolder(activeDocument.uri)) ?? vscode.workspace.workspaceFolders?.[0];
+			if (!folder) {
+				vscode.window.showInformationMessage('Open a workspace folder to use compile profiles');
+				return;
+			}
+
+			const { profiles, errors } = await loadCompileProfiles(folder);
+			if (errors.length > 0) {
+				errors.forEach(error => logger.warn(error));
+				vscode.window.showWarningMessage('Some compile profiles are invalid and were skipped', 'Show Log').then(selection => {
+					if (selection === 'Show Log') {
+						logger.show();
+					}
+				});
+			}
+			if (profiles.length === 0) {
+				const selection = await vscode.window.showInformationMessage(
+					'No compile profiles defined. Add them to the quarkdownPreview.compileProfiles setting or to .vscode/quarkdown.json.',
+					'Open Settings'
+				);
+				if (selection === 'Open Settings') {
+					vscode.commands.executeCommand('workbench.action.openSettings', 'quarkdownPreview.compileProfiles');
+				}
+				return;
+			}
+
+			// The last used profile comes first
+			const lastUsed = context.workspaceState.get<string>(LAST_PROFILE_KEY);
+			const items = profiles
+				.map(profile => ({
+					label: profile.name,
+					description: profile.name === lastUsed ? 'last used' : undefined,
+					detail: [
+						(profile.target ?? 'html').toUpperCase(),
+						profile.entry ?? 'active document',
+						`→ ${profile.outputDirectory || 'output'}`,
+						...(profile.clean ? ['clean'] : []),
+						...(profile.args ?? [])
+					].join('  '),
+					profile: profile
+				}))
+				.sort((a, b) => Number(b.label === lastUsed) - Number(a.label === lastUsed));
+			const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select a compile profile' });
+			if (!picked) {
 				return;
 			}
+			await context.workspaceState.update(LAST_PROFILE_KEY, picked.profile.name);
 
-			const document = activeEditor.document;
-			if (!document.fileName.endsWith('.qmd') && !document.fileName.endsWith('.qd')) {
-				vscode.window.showInformationMessage('Current file is not a .qmd or .qd file');
+			const document = await getProfileDocument(picked.profile, folder, activeDocument);
+			if (!document) {
 				return;
 			}
 
@@ -155,23 +411,28 @@ export function activate(context: vscode.ExtensionContext) {
 				return; // Stop execution if not installed
 			}
 
-			await previewManager.compileDocument(document, false);
+			await previewManager.compileWithProfile(picked.profile, document, folder.uri.fsPath);
 		}
 	);
 
-	// Register compile to PDF command
-	const compileToPdfCommand = vscode.commands.registerCommand(
-		'quarkdown-preview.compileToPdf',
+	// Register compile workspace command
+	const compileWorkspaceCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.compileWorkspace',
 		async () => {
-			const activeEditor = vscode.window.activeTextEditor;
-			if (!activeEditor) {
-				vscode.window.showInformationMessage('Please open a .qmd file first');
+			const filePaths = await findProjectFiles();
+			if (filePaths.length === 0) {
+				vscode.window.showInformationMessage('No Quarkdown documents found in the workspace');
 				return;
 			}
 
-			const document = activeEditor.document;
-			if (!document.fileName.endsWith('.qmd') && !document.fileName.endsWith('.qd')) {
-				vscode.window.showInformationMessage('Current file is not a .qmd or .qd file');
+			const targets: { label: string; target: CompileTarget }[] = [
+				{ label: 'HTML', target: 'html' },
+				{ label: 'PDF', target: 'pdf' }
+			];
+			const picked = await vscode.window.showQuickPick(targets, {
+				placeHolder: `Compile ${filePaths.length} root documents to`
+			});
+			if (!picked) {
 				return;
 			}
 
@@ -181,31 +442,157 @@ export function activate(context: vscode.ExtensionContext) {
 				return; // Stop execution if not installed
 			}
 
-			await previewManager.compileDocument(document, true);
+			await previewManager.compileBatch(filePaths, picked.target);
+		}
+	);
+
+	// Register show log command
+	const showLogCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.showLog',
+		() => logger.show()
+	);
+
+	// Register the Quarkdown activity bar views
+	const projectsProvider = new QuarkdownProjectsProvider();
+	const projectsView = vscode.window.createTreeView('quarkdownProjects', {
+		treeDataProvider: projectsProvider,
+		showCollapseAll: true
+	});
+	const previewsProvider = new RunningPreviewsProvider(previewManager);
+	const previewsView = vscode.window.createTreeView('quarkdownPreviews', { treeDataProvider: previewsProvider });
+
+	const refreshProjectsCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.refreshProjects',
+		() => projectsProvider.refresh()
+	);
+
+	const stopPreviewCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.stopPreview',
+		(item?: RunningPreviewItem) => {
+			if (item) {
+				previewManager.stopPreview(item.preview.filePath);
+			}
+		}
+	);
+
+	const openOutputFolderCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.openOutputFolder',
+		async (item?: RunningPreviewItem) => {
+			if (item) {
+				await vscode.env.openExternal(vscode.Uri.file(item.preview.outputDir));
+			}
+		}
+	);
+
+	const togglePreviewLockCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.togglePreviewLock',
+		() => previewManager.togglePreviewLock()
+	);
+
+	const cleanPreviewCacheCommand = vscode.commands.registerCommand(
+		'quarkdown-preview.cleanPreviewCache',
+		() => {
+			const removed = previewManager.cleanPreviewCache();
+			vscode.window.showInformationMessage(removed > 0
+				? `Removed ${removed} unused preview cache folder${removed === 1 ? '' : 's'}.`
+				: 'No unused preview cache folders found.');
 		}
 	);
 
 	// Listen for document save events to auto-update preview
 	const onDocumentSaveDisposable = vscode.workspace.onDidSaveTextDocument(async (document) => {
-		if (document.fileName.endsWith('.qmd') || document.fileName.endsWith('.qd')) {
+		if (getUpdateMode() !== 'onSave') {
+			return;
+		}
+		if (isQuarkdownDocument(document)) {
 			// Recompile preview if this document's preview is open
 			await previewManager.recompileForPreview(document);
 		}
+		// Chapters, images and stylesheets used by other previewed documents
+		previewManager.updateDependentPreviews(document, 0);
+	});
+
+	// Listen for document edits to update the preview while typing
+	const onDocumentChangeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
+		if (getUpdateMode() !== 'onType' || event.contentChanges.length === 0) {
+			return;
+		}
+		const document = event.document;
+		if (isQuarkdownDocument(document)) {
+			const delay = vscode.workspace.getConfiguration('quarkdownPreview').get<number>('updateDelay', 800);
+			previewManager.schedulePreviewUpdate(document, delay);
+			previewManager.updateDependentPreviews(document, delay);
+		}
 	});
 
 	// Listen for active editor changes
-	const onActiveEditorChangeDisposable = vscode.window.onDidChangeActiveTextEditor((editor) => {
-		if (editor && (editor.document.fileName.endsWith('.qmd') || editor.document.fileName.endsWith('.qd'))) {
-			// Could add status bar info or other UI updates here
+	// Switch the dynamic preview to the project of the active editor
+	const onActiveEditorChangeDisposable = vscode.window.onDidChangeActiveTextEditor(async (editor) => {
+		if (editor && isQuarkdownDocument(editor.document)) {
+			previewManager.followActiveDocument(await resolveRootDocument(editor.document));
 		}
 	});
 
+	// Keep the preview scrolled to the top of the editor's visible range
+	const onVisibleRangesChangeDisposable = vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+		const config = vscode.workspace.getConfiguration('quarkdownPreview');
+		if (!config.get<boolean>('scrollPreviewWithEditor', true) || event.visibleRanges.length === 0) {
+			return;
+		}
+		const document = event.textEditor.document;
+		if (isQuarkdownDocument(document)) {
+			previewManager.scrollPreviewToLine(document, event.visibleRanges[0].start.line);
+		}
+	});
+
+	// Outline the page of paged previews that contains the cursor
+	const onSelectionChangeDisposable = vscode.window.onDidChangeTextEditorSelection((event) => {
+		const config = vscode.workspace.getConfiguration('quarkdownPreview');
+		if (!config.get<boolean>('highlightCursorPage', true) || event.selections.length === 0) {
+			return;
+		}
+		const document = event.textEditor.document;
+		if (isQuarkdownDocument(document)) {
+			previewManager.highlightPreviewLine(document, event.selections[0].active.line);
+		}
+	});
+
+	// Register language features
+	const symbolIndex = QuarkdownSymbolIndex.getInstance();
+	const completionProvider = vscode.languages.registerCompletionItemProvider(
+		QUARKDOWN_SELECTOR,
+		new QuarkdownCompletionProvider(),
+		...QuarkdownCompletionProvider.triggerCharacters
+	);
+	const signatureHelpProvider = vscode.languages.registerSignatureHelpProvider(
+		QUARKDOWN_SELECTOR,
+		new QuarkdownSignatureHelpProvider(),
+		{
+			triggerCharacters: QuarkdownSignatureHelpProvider.triggerCharacters,
+			retriggerCharacters: QuarkdownSignatureHelpProvider.retriggerCharacters
+		}
+	);
+	const hoverProvider = vscode.languages.registerHoverProvider(QUARKDOWN_SELECTOR, new QuarkdownHoverProvider());
+	const definitionProvider = vscode.languages.registerDefinitionProvider(QUARKDOWN_SELECTOR, new QuarkdownDefinitionProvider());
+	const referenceProvider = vscode.languages.registerReferenceProvider(QUARKDOWN_SELECTOR, new QuarkdownReferenceProvider());
+	const renameProvider = vscode.languages.registerRenameProvider(QUARKDOWN_SELECTOR, new QuarkdownRenameProvider());
+	const documentSymbolProvider = vscode.languages.registerDocumentSymbolProvider(QUARKDOWN_SELECTOR, new QuarkdownDocumentSymbolProvider());
+	const foldingRangeProvider = vscode.languages.registerFoldingRangeProvider(QUARKDOWN_SELECTOR, new QuarkdownFoldingRangeProvider());
+
+	// Restore the previews that were open before the window reloaded
+	const previewSerializer = vscode.window.registerWebviewPanelSerializer('quarkdownPreview', {
+		deserializeWebviewPanel: (panel: vscode.WebviewPanel, state: PreviewPanelState | undefined) => previewManager.restorePreview(panel, state)
+	});
+
+	// Register the quarkdown task type
+	const taskProvider = vscode.tasks.registerTaskProvider(QUARKDOWN_TASK_TYPE, new QuarkdownTaskProvider());
+
 	// Register status bar item
 	const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
 
 	const updateStatusBar = () => {
 		const activeEditor = vscode.window.activeTextEditor;
-		if (activeEditor && (activeEditor.document.fileName.endsWith('.qmd') || activeEditor.document.fileName.endsWith('.qd'))) {
+		if (activeEditor && isQuarkdownDocument(activeEditor.document)) {
 			statusBarItem.text = '$(open-preview) Quarkdown';
 			statusBarItem.tooltip = 'Click to preview current Quarkdown file';
 			statusBarItem.command = 'quarkdown-preview.openPreviewToSide';
@@ -226,7 +613,7 @@ export function activate(context: vscode.ExtensionContext) {
 		if (event.affectsConfiguration('quarkdownPreview')) {
 			// Clear cache when configuration changes, but don't immediately check
 			clearInstallationCache();
-			console.log('Quarkdown configuration changed, cache cleared');
+			logger.debug('Quarkdown configuration changed, cache cleared');
 		}
 	});
 
@@ -234,14 +621,43 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		openPreviewCommand,
 		openPreviewToSideCommand,
+		openPresenterCommand,
 		createProjectCommand,
 		compileCommand,
 		compileToPdfCommand,
+		refreshPreviewCommand,
+		compileWithProfileCommand,
+		compileWorkspaceCommand,
+		showLogCommand,
+		refreshProjectsCommand,
+		stopPreviewCommand,
+		openOutputFolderCommand,
+		cleanPreviewCacheCommand,
+		togglePreviewLockCommand,
+		projectsProvider,
+		projectsView,
+		previewsProvider,
+		previewsView,
 		onDocumentSaveDisposable,
+		onDocumentChangeDisposable,
 		onActiveEditorChangeDisposable,
+		onVisibleRangesChangeDisposable,
+		onSelectionChangeDisposable,
+		symbolIndex,
+		completionProvider,
+		signatureHelpProvider,
+		hoverProvider,
+		definitionProvider,
+		referenceProvider,
+		renameProvider,
+		documentSymbolProvider,
+		foldingRangeProvider,
+		taskProvider,
+		previewSerializer,
 		statusBarUpdateDisposable,
 		configChangeDisposable,
-		statusBarItem
+		statusBarItem,
+		logger
 	);
 }
 
@@ -0,0 +1,62 @@
+import { codeBlockLines } from './sourceParser';
+
+export interface SourceHeading {
+    line: number;
+    level: number;
+    text: string;
+    /** Position among all headings of the document */
+    index: number;
+}
+
+/**
+ * Finds the ATX (`# Title`, `#! Title`) and setext headings of a Quarkdown source,
+ * skipping fenced code blocks.
+ */
+export function findHeadings(text: string): SourceHeading[] {
+    const lines = text.split(/\r?\n/);
+    const inCode = codeBlockLines(lines);
+    const headings: SourceHeading[] = [];
+
+    for (let line = 0; line < lines.length; line++) {
+        const content = lines[line];
+        if (inCode[line]) {
+            continue;
+        }
+
+        const atx = content.match(/^\s{0,3}(#{1,6})!?\s+(.*?)\s*#*\s*$/);
+        if (atx) {
+            headings.push({ line, level: atx[1].length, text: atx[2], index: headings.length });
+            continue;
+        }
+
+        const setext = content.match(/^\s{0,3}(=+|-+)\s*$/);
+        const previous = line > 0 ? lines[line - 1] : '';
+        if (setext && previous.trim().length > 0 && !previous.trim().startsWith('.') && !headings.some(h => h.line === line - 1)) {
+            headings.push({ line: line - 1, level: setext[1].startsWith('=') ? 1 : 2, text: previous.trim(), index: headings.length });
+        }
+    }
+
+    return headings;
+}
+
+/**
+ * @returns the last heading starting at or before `line`
+ */
+export function headingAtLine(headings: SourceHeading[], line: number): SourceHeading | undefined {
+    let result: SourceHeading | undefined;
+    for (const heading of headings) {
+        if (heading.line > line) {
+            break;
+        }
+        result = heading;
+    }
+    return result;
+}
+
+/**
+ * Reduces heading text to comparable characters, so that source headings can be matched
+ * against the rendered ones regardless of inline markup.
+ */
+export function normalizeHeadingText(text: string): string {
+    return text.toLowerCase().replace(/[\s*_`~[\]()#!.:,;'"]/g, '');
+}
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { definitionSnippet } from './sourceParser';
+import { IncludedSource, collectIncludeChain } from './includes';
+import { describeFunction, isInCodeBlock } from './completion';
+import { findStdlibFunction, formatSignature } from './stdlibCatalog';
+import { readQuarkdownSource } from './language';
+
+const CALL_PATTERN = /(?:\.|::)[A-Za-z_]\w*/;
+
+interface FoundDefinition {
+    source: IncludedSource;
+    line: number;
+    kind: 'function' | 'variable';
+}
+
+/**
+ * Documents the function or variable called under the cursor. User definitions are looked
+ * up in the document and its `.include` chain, and shadow the standard library.
+ */
+export class QuarkdownHoverProvider implements vscode.HoverProvider {
+    public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        if (isInCodeBlock(document, position)) {
+            return undefined;
+        }
+
+        const range = document.getWordRangeAtPosition(position, CALL_PATTERN);
+        if (!range) {
+            return undefined;
+        }
+        const call = document.getText(range);
+        // A `.` after a word is punctuation, after a backslash an escape
+        const before = document.lineAt(range.start.line).text.charAt(range.start.character - 1);
+        if (call.startsWith('.') && /[\w\\.]/.test(before)) {
+            return undefined;
+        }
+        const name = call.replace(/^(\.|::)/, '');
+
+        const definition = this.findDefinition(document, name, position.line);
+        if (definition) {
+            return new vscode.Hover(this.describeDefinition(definition), range);
+        }
+
+        const catalogFunction = findStdlibFunction(name);
+        if (catalogFunction) {
+            const markdown = new vscode.MarkdownString();
+            markdown.appendCodeblock(formatSignature(catalogFunction).label, 'quarkdown');
+            markdown.appendMarkdown(describeFunction(catalogFunction).value);
+            return new vscode.Hover(markdown, range);
+        }
+
+        return undefined;
+    }
+
+    private findDefinition(document: vscode.TextDocument, name: string, line: number): FoundDefinition | undefined {
+        const rootPath = path.resolve(document.uri.fsPath);
+        const chain = collectIncludeChain(rootPath, filePath =>
+            filePath === rootPath ? document.getText() : readQuarkdownSource(filePath));
+
+        // Variables can be reassigned: prefer the latest assignment above the cursor
+        const root = chain[0];
+        const localVariables = root?.parsed.variables.filter(v => v.name === name && v.line <= line) ?? [];
+        if (root && localVariables.length > 0) {
+            return { source: root, line: localVariables[localVariables.length - 1].line, kind: 'variable' };
+        }
+
+        for (const source of chain) {
+            const userFunction = source.parsed.functions.find(f => f.name === name);
+            if (userFunction) {
+                return { source, line: userFunction.line, kind: 'function' };
+            }
+            const variable = source.parsed.variables.find(v => v.name === name);
+            if (variable) {
+                return { source, line: variable.line, kind: 'variable' };
+            }
+        }
+
+        return undefined;
+    }
+
+    private describeDefinition(definition: FoundDefinition): vscode.MarkdownString {
+        const markdown = new vscode.MarkdownString();
+        markdown.appendCodeblock(definitionSnippet(definition.source.text, definition.line), 'quarkdown');
+
+        const location = vscode.workspace.asRelativePath(definition.source.filePath);
+        markdown.appendMarkdown(`*User-defined ${definition.kind}, ${location}:${definition.line + 1}*`);
+        return markdown;
+    }
+}
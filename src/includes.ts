@@ -0,0 +1,72 @@
+import * as path from 'path';
+import { ParsedSource, parseSource } from './sourceParser';
+
+export interface IncludedSource {
+    filePath: string;
+    text: string;
+    parsed: ParsedSource;
+}
+
+/**
+ * Reads the text of a source file, from an editor buffer or from disk.
+ * Returns `undefined` when the file cannot be read.
+ */
+export type SourceReader = (filePath: string) => string | undefined;
+
+/**
+ * Resolves an `.include` path, which is relative to the file that includes it.
+ */
+export function resolveIncludePath(fromFile: string, includePath: string): string {
+    return path.resolve(path.dirname(fromFile), includePath);
+}
+
+/**
+ * Walks a document and the files it includes, depth first in include order.
+ * The document itself comes first; missing files and include cycles are skipped.
+ */
+export function collectIncludeChain(filePath: string, read: SourceReader): IncludedSource[] {
+    const result: IncludedSource[] = [];
+    const visited = new Set<string>();
+
+    const visit = (current: string) => {
+        const normalized = path.resolve(current);
+        if (visited.has(normalized)) {
+            return;
+        }
+        visited.add(normalized);
+
+        const text = read(normalized);
+        if (text === undefined) {
+            return;
+        }
+        const parsed = parseSource(text);
+        result.push({ filePath: normalized, text, parsed });
+        for (const include of parsed.includes) {
+            visit(resolveIncludePath(normalized, include.path));
+        }
+    };
+
+    visit(filePath);
+    return result;
+}
+
+/**
+ * Follows `includersOf` up from `filePath` to a file that no other file includes: the entry
+ * file of the project. When several files include the same one, the first in sort order wins.
+ */
+export function findRootFile(filePath: string, includersOf: (filePath: string) => string[]): string {
+    let current = path.resolve(filePath);
+    const visited = new Set([current]);
+
+    for (;;) {
+        const next = includersOf(current)
+            .map(includer => path.resolve(includer))
+            .filter(includer => !visited.has(includer))
+            .sort()[0];
+        if (!next) {
+            return current;
+        }
+        visited.add(next);
+        current = next;
+    }
+}
@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+export const QUARKDOWN_LANGUAGE_ID = 'quarkdown';
+
+export const QUARKDOWN_SELECTOR: vscode.DocumentSelector = { language: QUARKDOWN_LANGUAGE_ID };
+
+const QUARKDOWN_EXTENSIONS = ['.qd', '.qmd'];
+
+export function isQuarkdownDocument(document: vscode.TextDocument): boolean {
+    return document.languageId === QUARKDOWN_LANGUAGE_ID;
+}
+
+/**
+ * For files that are not open in an editor, and thus have no language id yet.
+ */
+export function isQuarkdownFile(filePath: string): boolean {
+    return QUARKDOWN_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Reads a source file from its open editor, unsaved changes included, or from disk.
+ */
+export function readQuarkdownSource(filePath: string): string | undefined {
+    const openDocument = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath);
+    if (openDocument) {
+        return openDocument.getText();
+    }
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
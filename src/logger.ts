@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+export interface InvocationLog {
+    command: string;
+    args: string[];
+    cwd: string;
+    durationMs: number;
+    exitCode: number | null;
+    output: string;
+}
+
+/**
+ * The single "Quarkdown" output channel, shared by the whole extension.
+ * Messages below the `quarkdownPreview.logLevel` setting are dropped.
+ */
+export class QuarkdownLogger implements vscode.Disposable {
+    private static instance: QuarkdownLogger;
+    private channel = vscode.window.createOutputChannel('Quarkdown');
+
+    public static getInstance(): QuarkdownLogger {
+        if (!QuarkdownLogger.instance) {
+            QuarkdownLogger.instance = new QuarkdownLogger();
+        }
+        return QuarkdownLogger.instance;
+    }
+
+    public error(message: string, error?: unknown): void {
+        this.log('error', error === undefined ? message : `${message} ${this.describe(error)}`);
+    }
+
+    public warn(message: string): void {
+        this.log('warn', message);
+    }
+
+    public info(message: string): void {
+        this.log('info', message);
+    }
+
+    public debug(message: string): void {
+        this.log('debug', message);
+    }
+
+    /**
+     * Logs the start of a Quarkdown invocation with its full command line.
+     */
+    public logInvocationStart(command: string, args: string[], cwd: string): void {
+        this.info(`> ${this.formatCommandLine(command, args)} (cwd: ${cwd})`);
+    }
+
+    /**
+     * Logs a finished Quarkdown invocation: command line, working directory, duration,
+     * exit code and everything it printed. Abnormal exits are logged as errors.
+     */
+    public logInvocation(invocation: InvocationLog): void {
+        // A null exit code means the process was stopped by a signal, usually our own
+        const level: LogLevel = invocation.exitCode === 0 || invocation.exitCode === null ? 'info' : 'error';
+        if (!this.isEnabled(level)) {
+            return;
+        }
+
+        const lines = [
+            `${this.formatCommandLine(invocation.command, invocation.args)}`,
+            `  cwd: ${invocation.cwd}`,
+            `  duration: ${invocation.durationMs} ms`,
+            `  exit code: ${invocation.exitCode ?? 'none'}`
+        ];
+        const output = invocation.output.trim();
+        if (output) {
+            lines.push('  output:', ...output.split(/\r?\n/).map(line => `    ${line}`));
+        }
+        this.log(level, lines.join('\n'));
+    }
+
+    public show(): void {
+        this.channel.show(true);
+    }
+
+    public dispose(): void {
+        this.channel.dispose();
+    }
+
+    private log(level: LogLevel, message: string): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+        this.channel.appendLine(`[${new Date().toLocaleTimeString()}] [${level}] ${message}`);
+    }
+
+    private isEnabled(level: LogLevel): boolean {
+        const configuredLevel = vscode.workspace.getConfiguration('quarkdownPreview').get<LogLevel>('logLevel', 'info');
+        return LOG_LEVELS.indexOf(level) <= Math.max(0, LOG_LEVELS.indexOf(configuredLevel));
+    }
+
+    private formatCommandLine(command: string, args: string[]): string {
+        return [command, ...args].map(arg => /\s/.test(arg) ? `"${arg}"` : arg).join(' ');
+    }
+
+    private describe(error: unknown): string {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
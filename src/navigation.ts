@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseSource } from './sourceParser';
+import { collectIncludeChain, resolveIncludePath } from './includes';
+import { readQuarkdownSource } from './language';
+import { findRootPath } from './projectRoot';
+import { findStdlibFunction } from './stdlibCatalog';
+import { QuarkdownSymbolIndex } from './symbolIndex';
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+type SymbolAtPosition =
+    | { kind: 'symbol'; name: string; range: vscode.Range }
+    | { kind: 'include'; path: string; range: vscode.Range };
+
+/**
+ * Finds the call, definition name or include path under `position`.
+ */
+function symbolAtPosition(document: vscode.TextDocument, position: vscode.Position): SymbolAtPosition | undefined {
+    const parsed = parseSource(document.getText());
+    const contains = (line: number, character: number, length: number) =>
+        position.line === line && position.character >= character && position.character <= character + length;
+
+    for (const include of parsed.includes) {
+        if (contains(include.line, include.character, include.path.length)) {
+            return { kind: 'include', path: include.path, range: new vscode.Range(include.line, include.character, include.line, include.character + include.path.length) };
+        }
+    }
+
+    const named = [...parsed.functions, ...parsed.variables, ...parsed.calls];
+    for (const symbol of named) {
+        if (contains(symbol.line, symbol.character, symbol.name.length)) {
+            return { kind: 'symbol', name: symbol.name, range: new vscode.Range(symbol.line, symbol.character, symbol.line, symbol.character + symbol.name.length) };
+        }
+    }
+
+    return undefined;
+}
+
+function toLocation(symbol: { uri: vscode.Uri; line: number; character: number; name: string }): vscode.Location {
+    return new vscode.Location(symbol.uri, new vscode.Range(symbol.line, symbol.character, symbol.line, symbol.character + symbol.name.length));
+}
+
+/**
+ * Jumps from a call to the `.function`/`.var` definition, and from an include path to the file.
+ */
+export class QuarkdownDefinitionProvider implements vscode.DefinitionProvider {
+    public async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location[] | undefined> {
+        const symbol = symbolAtPosition(document, position);
+        if (!symbol) {
+            return undefined;
+        }
+
+        if (symbol.kind === 'include') {
+            const filePath = resolveIncludePath(document.uri.fsPath, symbol.path);
+            return fs.existsSync(filePath) ? [new vscode.Location(vscode.Uri.file(filePath), new vscode.Position(0, 0))] : undefined;
+        }
+
+        const index = QuarkdownSymbolIndex.getInstance();
+        await index.ready();
+        return index.findDefinitions(symbol.name).map(toLocation);
+    }
+}
+
+/**
+ * Lists the calls of a user-defined function or variable across the workspace.
+ */
+export class QuarkdownReferenceProvider implements vscode.ReferenceProvider {
+    public async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[] | undefined> {
+        const symbol = symbolAtPosition(document, position);
+        if (!symbol || symbol.kind !== 'symbol') {
+            return undefined;
+        }
+
+        const index = QuarkdownSymbolIndex.getInstance();
+        await index.ready();
+        const locations = index.findCalls(symbol.name).map(toLocation);
+        if (context.includeDeclaration) {
+            locations.unshift(...index.findDefinitions(symbol.name).map(toLocation));
+        }
+        return locations;
+    }
+}
+
+/**
+ * The files of the project `document` belongs to: its root document and the files it includes.
+ */
+async function findProjectFiles(document: vscode.TextDocument): Promise<Set<string>> {
+    const rootPath = await findRootPath(document);
+    const files = new Set(collectIncludeChain(rootPath, readQuarkdownSource).map(source => source.filePath));
+    files.add(path.resolve(document.uri.fsPath));
+    return files;
+}
+
+/**
+ * Renames a user-defined function or variable at its definitions and all its calls within
+ * the project of the document, so that other projects using the same name are left alone.
+ * Standard library functions and names that would clash with another definition are refused.
+ */
+export class QuarkdownRenameProvider implements vscode.RenameProvider {
+    public async prepareRename(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Range> {
+        const symbol = symbolAtPosition(document, position);
+        if (!symbol || symbol.kind !== 'symbol') {
+            throw new Error('Only user-defined functions and variables can be renamed');
+        }
+
+        const index = QuarkdownSymbolIndex.getInstance();
+        await index.ready();
+        const projectFiles = await findProjectFiles(document);
+        if (!index.findDefinitions(symbol.name).some(definition => projectFiles.has(path.resolve(definition.uri.fsPath)))) {
+            throw new Error(findStdlibFunction(symbol.name)
+                ? `.${symbol.name} is a standard library function and cannot be renamed`
+                : `No definition of .${symbol.name} found in the project`);
+        }
+        return symbol.range;
+    }
+
+    public async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        const symbol = symbolAtPosition(document, position);
+        if (!symbol || symbol.kind !== 'symbol') {
+            return undefined;
+        }
+        if (!IDENTIFIER.test(newName)) {
+            throw new Error(`'${newName}' is not a valid Quarkdown identifier`);
+        }
+
+        const index = QuarkdownSymbolIndex.getInstance();
+        await index.ready();
+        const projectFiles = await findProjectFiles(document);
+        const inProject = (found: { uri: vscode.Uri }) => projectFiles.has(path.resolve(found.uri.fsPath));
+        if (newName !== symbol.name && (index.findDefinitions(newName).some(inProject) || findStdlibFunction(newName))) {
+            throw new Error(`.${newName} is already defined`);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const symbols = [...index.findDefinitions(symbol.name), ...index.findCalls(symbol.name)].filter(inProject);
+        for (const location of symbols.map(toLocation)) {
+            edit.replace(location.uri, location.range, newName);
+        }
+        return edit;
+    }
+}
@@ -0,0 +1,173 @@
+import { findHeadings } from './headings';
+import { codeBlockLines, parseSource } from './sourceParser';
+
+export type OutlineKind = 'heading' | 'break' | 'function' | 'block';
+
+export interface OutlineNode {
+    kind: OutlineKind;
+    name: string;
+    detail: string;
+    line: number;
+    /** Last line of the section or body, trailing blank lines excluded */
+    endLine: number;
+    /** Heading level, for headings only */
+    level?: number;
+    children: OutlineNode[];
+}
+
+export interface FoldingRegion {
+    start: number;
+    end: number;
+}
+
+// A call starting a line, e.g. `.row alignment:{center}`
+const BLOCK_CALL = /^(\s*)\.([A-Za-z_]\w*)(.*)$/;
+const PAGE_BREAK = /^\s{0,3}<<<\s*$/;
+const SLIDES_DOCTYPE = /(?<![\w\\.])\.doctype\s*\{\s*slides\s*\}/;
+
+function indentation(line: string): number {
+    return /^\s*/.exec(line)![0].length;
+}
+
+/**
+ * @returns the last line of the indented body following `line`, or `line` itself if there is none
+ */
+function bodyEnd(lines: string[], line: number): number {
+    const baseIndentation = indentation(lines[line]);
+    let end = line;
+    for (let next = line + 1; next < lines.length; next++) {
+        if (!lines[next].trim()) {
+            continue;
+        }
+        if (indentation(lines[next]) <= baseIndentation) {
+            break;
+        }
+        end = next;
+    }
+    return end;
+}
+
+function lastContentLine(lines: string[], from: number, to: number): number {
+    let end = to;
+    while (end > from && !lines[end].trim()) {
+        end--;
+    }
+    return end;
+}
+
+/**
+ * Builds the outline of a Quarkdown source: heading sections nest by level, and contain the
+ * page breaks, `.function` definitions and block calls (calls followed by an indented body)
+ * written under them. Block calls nest inside the bodies of other blocks.
+ */
+export function buildOutline(text: string): OutlineNode[] {
+    const lines = text.split(/\r?\n/);
+    const inCode = codeBlockLines(lines);
+    const headings = findHeadings(text);
+    const breakName = SLIDES_DOCTYPE.test(text) ? 'Slide break' : 'Page break';
+    const nodes: OutlineNode[] = [];
+
+    headings.forEach((heading, index) => {
+        const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+        nodes.push({
+            kind: 'heading',
+            name: heading.text,
+            detail: '',
+            line: heading.line,
+            endLine: lastContentLine(lines, heading.line, next ? next.line - 1 : lines.length - 1),
+            level: heading.level,
+            children: []
+        });
+    });
+
+    const definitions = new Map(parseSource(text).functions.map(f => [f.line, f]));
+    for (let line = 0; line < lines.length; line++) {
+        if (inCode[line]) {
+            continue;
+        }
+        const content = lines[line];
+
+        if (PAGE_BREAK.test(content) || /^\s*\.pagebreak\s*$/.test(content)) {
+            nodes.push({ kind: 'break', name: breakName, detail: '', line, endLine: line, children: [] });
+            continue;
+        }
+
+        const call = BLOCK_CALL.exec(content);
+        if (!call) {
+            continue;
+        }
+        const definition = definitions.get(line);
+        if (definition) {
+            nodes.push({ kind: 'function', name: definition.name, detail: definition.parameters.join(' '), line, endLine: bodyEnd(lines, line), children: [] });
+            continue;
+        }
+        const end = bodyEnd(lines, line);
+        if (end > line) {
+            nodes.push({ kind: 'block', name: `.${call[2]}`, detail: call[3].trim(), line, endLine: end, children: [] });
+        }
+    }
+
+    nodes.sort((a, b) => a.line - b.line || (a.kind === 'heading' ? -1 : 1));
+    return nestNodes(nodes);
+}
+
+function contains(parent: OutlineNode, child: OutlineNode): boolean {
+    if (child.line > parent.endLine) {
+        return false;
+    }
+    if (parent.kind === 'heading' && child.kind === 'heading') {
+        return child.level! > parent.level!;
+    }
+    // Headings are never nested inside blocks
+    return parent.kind === 'heading' || child.kind !== 'heading';
+}
+
+function nestNodes(nodes: OutlineNode[]): OutlineNode[] {
+    const roots: OutlineNode[] = [];
+    const stack: OutlineNode[] = [];
+
+    for (const node of nodes) {
+        while (stack.length > 0 && !contains(stack[stack.length - 1], node)) {
+            stack.pop();
+        }
+        const parent = stack[stack.length - 1];
+        (parent ? parent.children : roots).push(node);
+        if (node.kind !== 'break') {
+            stack.push(node);
+        }
+    }
+
+    return roots;
+}
+
+/**
+ * Foldable regions of a Quarkdown source: heading sections, multi-line call bodies
+ * and fenced code blocks.
+ */
+export function findFoldingRegions(text: string): FoldingRegion[] {
+    const regions: FoldingRegion[] = [];
+
+    const visit = (node: OutlineNode) => {
+        if (node.endLine > node.line) {
+            regions.push({ start: node.line, end: node.endLine });
+        }
+        node.children.forEach(visit);
+    };
+    buildOutline(text).forEach(visit);
+
+    const inCode = codeBlockLines(text.split(/\r?\n/));
+    for (let line = 0; line < inCode.length; line++) {
+        if (inCode[line] && (line === 0 || !inCode[line - 1])) {
+            let end = line;
+            while (end + 1 < inCode.length && inCode[end + 1]) {
+                end++;
+            }
+            if (end > line) {
+                regions.push({ start: line, end });
+            }
+            line = end;
+        }
+    }
+
+    return regions.sort((a, b) => a.start - b.start);
+}
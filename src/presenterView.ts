@@ -0,0 +1,351 @@
+/**
+ * HTML of the presenter view of a slide deck: the current and next slides, both loaded like
+ * the preview, the speaker notes of the current slide, a timer and keyboard navigation.
+ * It talks to the preview bridge of its two frames with the same messages as the preview
+ * webview, and reports the current slide to the extension, which keeps the audience preview in sync.
+ */
+export function getPresenterContent(frameSources: string): string {
+    return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none';
+                frame-src ${frameSources};
+                script-src 'unsafe-inline';
+                style-src 'unsafe-inline';">
+            <title>Quarkdown Presenter</title>
+            <style>
+                body, html {
+                    margin: 0;
+                    padding: 0;
+                    height: 100%;
+                    overflow: hidden;
+                    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+                    background-color: var(--vscode-editor-background);
+                    color: var(--vscode-editor-foreground);
+                }
+                body {
+                    display: flex;
+                    flex-direction: column;
+                }
+                header {
+                    display: flex;
+                    align-items: center;
+                    gap: 16px;
+                    padding: 8px 12px;
+                    border-bottom: 1px solid var(--vscode-panel-border, rgba(128, 128, 128, 0.35));
+                    font-size: 13px;
+                }
+                .timer {
+                    font-size: 20px;
+                    font-variant-numeric: tabular-nums;
+                }
+                .timer.paused {
+                    opacity: 0.5;
+                }
+                .spacer {
+                    flex: 1;
+                }
+                .hint {
+                    opacity: 0.6;
+                }
+                button {
+                    padding: 4px 10px;
+                    background: var(--vscode-button-secondaryBackground, var(--vscode-button-background));
+                    color: var(--vscode-button-secondaryForeground, var(--vscode-button-foreground));
+                    border: none;
+                    border-radius: 4px;
+                    cursor: pointer;
+                    font-size: 12px;
+                }
+                button:hover {
+                    background: var(--vscode-button-secondaryHoverBackground, var(--vscode-button-hoverBackground));
+                }
+                main {
+                    flex: 1;
+                    display: grid;
+                    grid-template-columns: 3fr 2fr;
+                    gap: 12px;
+                    padding: 12px;
+                    min-height: 0;
+                }
+                .column {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 8px;
+                    min-height: 0;
+                }
+                .label {
+                    font-size: 11px;
+                    text-transform: uppercase;
+                    letter-spacing: 0.05em;
+                    opacity: 0.7;
+                }
+                .frame {
+                    position: relative;
+                    border: 1px solid var(--vscode-panel-border, rgba(128, 128, 128, 0.35));
+                    background: white;
+                }
+                #current-frame {
+                    flex: 1;
+                }
+                #next-frame {
+                    aspect-ratio: 16 / 9;
+                }
+                iframe {
+                    width: 100%;
+                    height: 100%;
+                    border: none;
+                    display: block;
+                }
+                #next {
+                    pointer-events: none;
+                }
+                .overlay {
+                    position: absolute;
+                    inset: 0;
+                    display: none;
+                    justify-content: center;
+                    align-items: center;
+                    background-color: var(--vscode-editor-background);
+                    text-align: center;
+                    padding: 12px;
+                }
+                .overlay.visible {
+                    display: flex;
+                }
+                .error {
+                    color: var(--vscode-errorForeground);
+                }
+                #notes {
+                    flex: 1;
+                    overflow: auto;
+                    padding: 10px;
+                    white-space: pre-wrap;
+                    font-size: 16px;
+                    line-height: 1.5;
+                    background-color: var(--vscode-textBlockQuote-background);
+                    border-radius: 4px;
+                }
+                #notes.empty {
+                    opacity: 0.5;
+                    font-style: italic;
+                }
+            </style>
+        </head>
+        <body>
+            <header>
+                <span class="timer" id="timer">00:00:00</span>
+                <button id="pauseButton">Pause</button>
+                <button id="resetButton">Reset</button>
+                <span id="counter"></span>
+                <span class="spacer"></span>
+                <span class="hint">← → navigate · Home/End first/last · T pause · R reset timer</span>
+                <span id="clock"></span>
+            </header>
+            <main>
+                <div class="column">
+                    <span class="label">Current slide</span>
+                    <div class="frame" id="current-frame">
+                        <iframe id="current"></iframe>
+                        <div class="overlay visible" id="status">Starting preview server...</div>
+                    </div>
+                </div>
+                <div class="column">
+                    <span class="label">Next slide</span>
+                    <div class="frame" id="next-frame">
+                        <iframe id="next" tabindex="-1"></iframe>
+                        <div class="overlay" id="end">End of presentation</div>
+                    </div>
+                    <span class="label">Speaker notes</span>
+                    <div id="notes" class="empty">No notes for this slide</div>
+                </div>
+            </main>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const current = document.getElementById('current');
+                const next = document.getElementById('next');
+                const status = document.getElementById('status');
+                const end = document.getElementById('end');
+                const notes = document.getElementById('notes');
+                const counter = document.getElementById('counter');
+                const timer = document.getElementById('timer');
+                const clock = document.getElementById('clock');
+                const pauseButton = document.getElementById('pauseButton');
+
+                // Kept in the webview state so that it survives the panel being moved or hidden
+                const state = vscode.getState() || {};
+                let currentSlide = state.slide || { h: 0, v: 0 };
+                let elapsedBefore = state.elapsedBefore || 0;
+                let runningSince = state.paused ? null : Date.now();
+                const connected = new Set();
+
+                function saveState() {
+                    vscode.setState({ slide: currentSlide, elapsedBefore: elapsed(), paused: runningSince === null });
+                }
+
+                function postTo(frame, message) {
+                    if (frame.contentWindow) {
+                        message.target = 'quarkdown-preview-bridge';
+                        frame.contentWindow.postMessage(message, '*');
+                    }
+                }
+
+                function showSlide(slide) {
+                    currentSlide = slide;
+                    postTo(current, { type: 'restore', position: { slide: slide } });
+                    postTo(next, { type: 'showNext', slide: slide });
+                    saveState();
+                }
+
+                function elapsed() {
+                    return elapsedBefore + (runningSince === null ? 0 : Date.now() - runningSince);
+                }
+
+                function pad(value) {
+                    return String(value).padStart(2, '0');
+                }
+
+                function renderTime() {
+                    const seconds = Math.floor(elapsed() / 1000);
+                    timer.textContent = pad(Math.floor(seconds / 3600)) + ':' + pad(Math.floor(seconds / 60) % 60) + ':' + pad(seconds % 60);
+                    timer.classList.toggle('paused', runningSince === null);
+                    pauseButton.textContent = runningSince === null ? 'Resume' : 'Pause';
+                    const now = new Date();
+                    clock.textContent = pad(now.getHours()) + ':' + pad(now.getMinutes());
+                }
+
+                function toggleTimer() {
+                    if (runningSince === null) {
+                        runningSince = Date.now();
+                    } else {
+                        elapsedBefore = elapsed();
+                        runningSince = null;
+                    }
+                    saveState();
+                    renderTime();
+                }
+
+                function resetTimer() {
+                    elapsedBefore = 0;
+                    if (runningSince !== null) {
+                        runningSince = Date.now();
+                    }
+                    saveState();
+                    renderTime();
+                }
+
+                function showDetails(details) {
+                    if (!details) {
+                        return;
+                    }
+                    counter.textContent = 'Slide ' + details.number + ' / ' + details.total;
+                    notes.textContent = details.notes || 'No notes for this slide';
+                    notes.classList.toggle('empty', !details.notes);
+                }
+
+                function handleBridgeMessage(frame, message) {
+                    if (!message || message.source !== 'quarkdown-preview') {
+                        return;
+                    }
+                    switch (message.type) {
+                        case 'ready':
+                            connected.add(frame);
+                            if (frame === current) {
+                                postTo(current, { type: 'restore', position: { slide: currentSlide } });
+                            } else {
+                                postTo(next, { type: 'showNext', slide: currentSlide });
+                            }
+                            break;
+                        case 'position':
+                            // The next slide frame reports the slide it shows: only the current one counts
+                            if (frame !== current || !message.position || !message.position.slide) {
+                                break;
+                            }
+                            showDetails(message.details);
+                            const slide = message.position.slide;
+                            if (slide.h !== currentSlide.h || slide.v !== currentSlide.v) {
+                                currentSlide = slide;
+                                postTo(next, { type: 'showNext', slide: slide });
+                                saveState();
+                            }
+                            vscode.postMessage({ command: 'slideChanged', slide: slide });
+                            break;
+                        case 'nextSlide':
+                            end.classList.toggle('visible', !!message.isLast);
+                            break;
+                    }
+                }
+
+                window.addEventListener('message', event => {
+                    if (event.source === current.contentWindow || event.source === next.contentWindow) {
+                        handleBridgeMessage(event.source === current.contentWindow ? current : next, event.data);
+                        return;
+                    }
+                    const message = event.data;
+                    switch (message.command) {
+                        case 'updateStatus':
+                            status.classList.remove('error');
+                            status.classList.add('visible');
+                            status.textContent = message.text;
+                            break;
+                        case 'loadUrl':
+                            status.classList.remove('visible');
+                            connected.clear();
+                            current.src = message.url;
+                            next.src = message.url;
+                            break;
+                        case 'showError':
+                            status.classList.add('visible', 'error');
+                            status.textContent = message.text;
+                            break;
+                        case 'reload':
+                            [current, next].forEach(frame => {
+                                if (connected.has(frame)) {
+                                    // The bridge reports ready again once reloaded
+                                    connected.delete(frame);
+                                    postTo(frame, { type: 'reload' });
+                                } else if (frame.src) {
+                                    const src = frame.src;
+                                    frame.src = 'about:blank';
+                                    setTimeout(() => { frame.src = src; }, 100);
+                                }
+                            });
+                            break;
+                        case 'goToSlide':
+                            showSlide(message.slide);
+                            break;
+                    }
+                });
+
+                const KEYS = {
+                    ArrowRight: 'next', ArrowDown: 'next', PageDown: 'next', ' ': 'next', n: 'next',
+                    ArrowLeft: 'previous', ArrowUp: 'previous', PageUp: 'previous', Backspace: 'previous', p: 'previous',
+                    Home: 'first', End: 'last'
+                };
+                document.addEventListener('keydown', event => {
+                    if (event.ctrlKey || event.metaKey || event.altKey) {
+                        return;
+                    }
+                    if (KEYS[event.key]) {
+                        event.preventDefault();
+                        postTo(current, { type: 'navigate', direction: KEYS[event.key] });
+                    } else if (event.key === 't' || event.key === 'T') {
+                        toggleTimer();
+                    } else if (event.key === 'r' || event.key === 'R') {
+                        resetTimer();
+                    }
+                });
+                pauseButton.addEventListener('click', toggleTimer);
+                document.getElementById('resetButton').addEventListener('click', resetTimer);
+
+                renderTime();
+                setInterval(renderTime, 1000);
+            </script>
+        </body>
+        </html>
+    `;
+}
@@ -0,0 +1,520 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { QuarkdownLogger } from './logger';
+
+const BRIDGE_MARKER = 'data-quarkdown-preview-bridge';
+
+/**
+ * Script injected into the compiled HTML. The preview runs on a different origin than
+ * the webview, so its state can only be read and restored from inside the page:
+ * the bridge reports the scroll offset (or reveal.js slide) to the webview through
+ * `postMessage` and restores the last known one once the page has been reloaded.
+ * It also maps between rendered elements and source lines for editor scroll sync,
+ * using source-line attributes when present and headings otherwise, drives
+ * slide decks for the presenter view, and pages, zooms and lays out thumbnails
+ * of paged documents for the preview toolbar.
+ */
+const BRIDGE_SCRIPT = `
+<script ${BRIDGE_MARKER}>
+(function () {
+    function post(message) {
+        message.source = 'quarkdown-preview';
+        window.parent.postMessage(message, '*');
+    }
+
+    function reveal() {
+        return typeof Reveal !== 'undefined' && Reveal.isReady && Reveal.isReady() ? Reveal : null;
+    }
+
+    function currentPosition() {
+        var deck = reveal();
+        if (deck) {
+            var indices = deck.getIndices();
+            return { slide: { h: indices.h, v: indices.v || 0 } };
+        }
+        return { scrollX: window.scrollX, scrollY: window.scrollY };
+    }
+
+    // Slide number and speaker notes, for the presenter view
+    function slideDetails() {
+        var deck = reveal();
+        if (!deck) {
+            return undefined;
+        }
+        var slide = deck.getCurrentSlide();
+        var notes = slide && slide.querySelector('aside.notes');
+        return {
+            number: deck.getSlidePastCount() + 1,
+            total: deck.getTotalSlides(),
+            notes: notes ? notes.textContent.trim() : ''
+        };
+    }
+
+    var reportTimer;
+    function reportPosition() {
+        clearTimeout(reportTimer);
+        reportTimer = setTimeout(function () {
+            post({ type: 'position', position: currentPosition(), details: slideDetails() });
+            reportPages();
+        }, 100);
+    }
+
+    // Runs action with the reveal.js deck, which initializes asynchronously
+    function withDeck(action) {
+        var attempts = 0;
+        var run = function () {
+            var deck = reveal();
+            if (deck) {
+                action(deck);
+            } else if (attempts++ < 50) {
+                setTimeout(run, 100);
+            }
+        };
+        run();
+    }
+
+    // Shows the slide after the given one, for the presenter's next slide preview
+    function showNextSlide(slide) {
+        withDeck(function (deck) {
+            deck.slide(slide.h, slide.v);
+            var routes = deck.availableRoutes();
+            if (routes.down) {
+                deck.slide(slide.h, slide.v + 1);
+            } else if (routes.right) {
+                deck.slide(slide.h + 1, 0);
+            }
+            post({ type: 'nextSlide', isLast: !routes.down && !routes.right });
+        });
+    }
+
+    function navigate(direction) {
+        withDeck(function (deck) {
+            switch (direction) {
+                case 'next':
+                    deck.next();
+                    break;
+                case 'previous':
+                    deck.prev();
+                    break;
+                case 'first':
+                    deck.slide(0, 0);
+                    break;
+                case 'last':
+                    deck.slide(deck.getHorizontalSlides().length - 1, 0);
+                    break;
+            }
+        });
+    }
+
+    function restorePosition(position) {
+        if (!position) {
+            return;
+        }
+        if (position.slide) {
+            withDeck(function (deck) {
+                deck.slide(position.slide.h, position.slide.v);
+                // Also when already on that slide, so that the presenter gets its details
+                reportPosition();
+            });
+            return;
+        }
+        // Paged documents grow while paged.js lays out pages: retry until the offset is reachable
+        var tries = 0;
+        var restoreScroll = function () {
+            window.scrollTo(position.scrollX || 0, position.scrollY || 0);
+            var reached = Math.abs(window.scrollY - (position.scrollY || 0)) < 2;
+            if (!reached && tries++ < 50) {
+                setTimeout(restoreScroll, 100);
+            }
+        };
+        restoreScroll();
+    }
+
+    var SOURCE_LINE_SELECTOR = '[data-source-line], [data-line]';
+    var THUMBNAILS_ID = 'quarkdown-preview-thumbnails';
+    var THUMBNAIL_WIDTH = 140;
+    var PAGE_GAP = 24;
+
+    // paged.js lays pages out as .pagedjs_page elements, asynchronously after load
+    function allPages() {
+        return Array.prototype.slice.call(document.querySelectorAll('.pagedjs_page')).filter(function (page) {
+            return !page.closest('#' + THUMBNAILS_ID);
+        });
+    }
+
+    function currentPageIndex(pages) {
+        var index = 0;
+        var threshold = window.innerHeight / 3;
+        pages.forEach(function (page, i) {
+            if (page.getBoundingClientRect().top <= threshold) {
+                index = i;
+            }
+        });
+        return index;
+    }
+
+    function goToPage(number) {
+        var page = allPages()[number - 1];
+        if (page) {
+            page.scrollIntoView({ block: 'start' });
+        }
+    }
+
+    // Zoom of the pages: a factor, or 'fitWidth' / 'fitPage' to follow the window size
+    var zoomMode = 1;
+    var zoom = 1;
+    var thumbnailsVisible = false;
+
+    function thumbnails() {
+        return document.getElementById(THUMBNAILS_ID);
+    }
+
+    // keepPage: scroll back to the page shown before, when the user changed the zoom
+    function applyZoom(keepPage) {
+        var pages = allPages();
+        var container = document.querySelector('.pagedjs_pages');
+        if (!pages.length || !container) {
+            return;
+        }
+        var rect = pages[0].getBoundingClientRect();
+        var width = rect.width / zoom;
+        var height = rect.height / zoom;
+        var sidebar = thumbnails();
+        var availableWidth = window.innerWidth - PAGE_GAP - (sidebar ? sidebar.offsetWidth : 0);
+        if (zoomMode === 'fitWidth') {
+            zoom = availableWidth / width;
+        } else if (zoomMode === 'fitPage') {
+            zoom = Math.min(availableWidth / width, (window.innerHeight - PAGE_GAP) / height);
+        } else {
+            zoom = zoomMode;
+        }
+        var current = currentPageIndex(pages);
+        container.style.zoom = String(zoom);
+        if (keepPage) {
+            pages[current].scrollIntoView({ block: 'start' });
+        }
+    }
+
+    function setZoom(mode) {
+        if (mode === 'in' || mode === 'out') {
+            var step = mode === 'in' ? 0.1 : -0.1;
+            mode = Math.min(4, Math.max(0.2, Math.round((zoom + step) * 10) / 10));
+        }
+        zoomMode = mode;
+        applyZoom(true);
+        reportPages();
+    }
+
+    function markCurrentThumbnail(index) {
+        var sidebar = thumbnails();
+        if (!sidebar) {
+            return;
+        }
+        Array.prototype.forEach.call(sidebar.children, function (item, i) {
+            item.style.outline = i === index ? '2px solid #007acc' : 'none';
+        });
+    }
+
+    // Scaled-down copies of the pages, without the attributes used to locate sources
+    function renderThumbnails() {
+        var sidebar = thumbnails();
+        if (!sidebar) {
+            return;
+        }
+        sidebar.innerHTML = '';
+        allPages().forEach(function (page, i) {
+            var rect = page.getBoundingClientRect();
+            var scale = THUMBNAIL_WIDTH / (rect.width / zoom);
+            var copy = page.cloneNode(true);
+            copy.querySelectorAll('[id], [data-source-line], [data-line]').forEach(function (element) {
+                element.removeAttribute('id');
+                element.removeAttribute('data-source-line');
+                element.removeAttribute('data-line');
+            });
+            copy.style.transform = 'scale(' + scale + ')';
+            copy.style.transformOrigin = 'top left';
+            copy.style.margin = '0';
+            copy.style.pointerEvents = 'none';
+
+            var item = document.createElement('div');
+            item.title = 'Page ' + (i + 1);
+            item.style.cssText = 'position: relative; overflow: hidden; margin: 10px auto 22px; cursor: pointer; background: white;' +
+                'box-shadow: 0 1px 4px rgba(0, 0, 0, 0.3); width: ' + THUMBNAIL_WIDTH + 'px; height: ' + Math.round(rect.height / zoom * scale) + 'px;';
+            item.appendChild(copy);
+            item.addEventListener('click', function () {
+                goToPage(i + 1);
+            });
+            sidebar.appendChild(item);
+        });
+        markCurrentThumbnail(currentPageIndex(allPages()));
+    }
+
+    function showThumbnails(visible) {
+        var sidebar = thumbnails();
+        if (visible && !sidebar && allPages().length) {
+            sidebar = document.createElement('div');
+            sidebar.id = THUMBNAILS_ID;
+            sidebar.style.cssText = 'position: fixed; top: 0; left: 0; bottom: 0; width: ' + (THUMBNAIL_WIDTH + 30) + 'px;' +
+                'overflow-y: auto; z-index: 10000; background: #e8e8e8; border-right: 1px solid #ccc;';
+            document.body.appendChild(sidebar);
+            document.body.style.paddingLeft = sidebar.offsetWidth + 'px';
+            renderThumbnails();
+        } else if (!visible && sidebar) {
+            sidebar.remove();
+            document.body.style.paddingLeft = '';
+        }
+        thumbnailsVisible = visible;
+        applyZoom(true);
+    }
+
+    var pagesTimer;
+    function reportPages() {
+        var pages = allPages();
+        if (!pages.length) {
+            return;
+        }
+        var current = currentPageIndex(pages);
+        markCurrentThumbnail(current);
+        post({ type: 'pages', count: pages.length, current: current + 1, zoom: zoom, zoomMode: zoomMode });
+    }
+
+    // Outlines the page that contains the editor's cursor
+    var highlightedPage = null;
+    function highlightPage(element) {
+        var page = element && element.closest('.pagedjs_page');
+        if (highlightedPage && highlightedPage !== page) {
+            highlightedPage.style.outline = '';
+        }
+        highlightedPage = page;
+        if (page) {
+            page.style.outline = '3px solid rgba(0, 122, 204, 0.6)';
+        }
+    }
+
+    // Once paged.js is done (or has reflowed the document), apply the toolbar settings again
+    var layoutObserver = new MutationObserver(function (mutations) {
+        var sidebar = thumbnails();
+        var isLayout = mutations.some(function (mutation) {
+            if (sidebar && sidebar.contains(mutation.target)) {
+                return false;
+            }
+            var nodes = Array.prototype.slice.call(mutation.addedNodes).concat(Array.prototype.slice.call(mutation.removedNodes));
+            // Showing or hiding the thumbnails is not a layout change
+            return nodes.length === 0 || !nodes.every(function (node) {
+                return node.id === THUMBNAILS_ID;
+            });
+        });
+        if (!isLayout) {
+            return;
+        }
+        clearTimeout(pagesTimer);
+        pagesTimer = setTimeout(function () {
+            if (thumbnailsVisible && !thumbnails()) {
+                showThumbnails(true);
+            } else {
+                applyZoom();
+                renderThumbnails();
+            }
+            reportPages();
+        }, 300);
+    });
+
+    function sourceLineOf(element) {
+        return parseInt(element.getAttribute('data-source-line') || element.getAttribute('data-line'), 10);
+    }
+
+    function normalizeText(text) {
+        return (text || '').toLowerCase().replace(/[\\s*_\`~[\\]()#!.:,;'"]/g, '');
+    }
+
+    function allHeadings() {
+        return Array.prototype.slice.call(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).filter(function (heading) {
+            return !heading.closest('#' + THUMBNAILS_ID);
+        });
+    }
+
+    function findSourceElement(target) {
+        var best = null;
+        var bestLine = -1;
+        if (typeof target.line === 'number') {
+            document.querySelectorAll(SOURCE_LINE_SELECTOR).forEach(function (element) {
+                var line = sourceLineOf(element);
+                if (line <= target.line && line > bestLine) {
+                    best = element;
+                    bestLine = line;
+                }
+            });
+        }
+        if (best || !target.heading) {
+            return best;
+        }
+        // Headings repeat, e.g. a "Summary" per chapter: prefer the one at the same position
+        var headings = allHeadings();
+        var text = normalizeText(target.heading.text);
+        var index = target.heading.index;
+        var closest = null;
+        var closestDistance = Infinity;
+        headings.forEach(function (heading, i) {
+            var distance = Math.abs(i - index);
+            if (normalizeText(heading.textContent) === text && distance < closestDistance) {
+                closest = heading;
+                closestDistance = distance;
+            }
+        });
+        return closest || headings[index] || null;
+    }
+
+    function scrollToElement(element) {
+        var deck = reveal();
+        if (deck) {
+            var slide = element.closest('section');
+            if (slide) {
+                var indices = deck.getIndices(slide);
+                deck.slide(indices.h, indices.v);
+            }
+            return;
+        }
+        element.scrollIntoView({ block: 'start' });
+    }
+
+    document.addEventListener('dblclick', function (event) {
+        var target = event.target;
+        if (!target || !target.closest || target.closest('#' + THUMBNAILS_ID)) {
+            return;
+        }
+        var lineElement = target.closest(SOURCE_LINE_SELECTOR);
+        if (lineElement) {
+            post({ type: 'revealSource', line: sourceLineOf(lineElement) });
+            return;
+        }
+        // Nearest heading at or before the clicked element in document order
+        var headings = allHeadings();
+        var index = -1;
+        for (var i = 0; i < headings.length; i++) {
+            if (headings[i] === target || headings[i].contains(target) ||
+                (headings[i].compareDocumentPosition(target) & Node.DOCUMENT_POSITION_FOLLOWING)) {
+                index = i;
+            }
+        }
+        if (index >= 0) {
+            post({ type: 'revealSource', heading: { text: headings[index].textContent, index: index } });
+        }
+    });
+
+    window.addEventListener('scroll', reportPosition, true);
+    window.addEventListener('message', function (event) {
+        var message = event.data;
+        if (!message || message.target !== 'quarkdown-preview-bridge') {
+            return;
+        }
+        switch (message.type) {
+            case 'restore':
+                restorePosition(message.position);
+                break;
+            case 'reload':
+                location.reload();
+                break;
+            case 'navigate':
+                navigate(message.direction);
+                break;
+            case 'showNext':
+                showNextSlide(message.slide);
+                break;
+            case 'goToPage':
+                goToPage(message.page);
+                break;
+            case 'zoom':
+                setZoom(message.mode);
+                break;
+            case 'thumbnails':
+                showThumbnails(message.visible);
+                break;
+            case 'highlightSource':
+                highlightPage(findSourceElement(message));
+                break;
+            case 'scrollToSource':
+                var element = findSourceElement(message);
+                if (element) {
+                    scrollToElement(element);
+                }
+                break;
+        }
+    });
+    window.addEventListener('resize', function () {
+        if (typeof zoomMode === 'string') {
+            applyZoom();
+        }
+    });
+    window.addEventListener('load', function () {
+        if (typeof Reveal !== 'undefined' && Reveal.on) {
+            Reveal.on('slidechanged', reportPosition);
+        }
+        layoutObserver.observe(document.body, { childList: true, subtree: true });
+        reportPages();
+        post({ type: 'ready' });
+    });
+})();
+</script>
+`;
+
+/**
+ * Injects the bridge script into every HTML file under `dir`. Already injected files are left untouched.
+ */
+export function injectPreviewBridge(dir: string): void {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (e) {
+        QuarkdownLogger.getInstance().error(`Error reading directory ${dir}:`, e);
+        return;
+    }
+
+    for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            injectPreviewBridge(fullPath);
+        } else if (entry.isFile() && entry.name.endsWith('.html')) {
+            injectIntoFile(fullPath);
+        }
+    }
+}
+
+function injectIntoFile(htmlFile: string): void {
+    try {
+        const html = fs.readFileSync(htmlFile, 'utf8');
+        if (html.includes(BRIDGE_MARKER)) {
+            return;
+        }
+        // A missing closing tag means the file is still being written
+        const bodyEnd = html.lastIndexOf('</body>');
+        if (bodyEnd < 0) {
+            return;
+        }
+        fs.writeFileSync(htmlFile, html.slice(0, bodyEnd) + BRIDGE_SCRIPT + html.slice(bodyEnd), 'utf8');
+    } catch (e) {
+        QuarkdownLogger.getInstance().error(`Error injecting preview bridge into ${htmlFile}:`, e);
+    }
+}
+
+/**
+ * Re-injects the bridge whenever a process other than ours (Quarkdown's watch mode)
+ * rewrites the HTML files of `dir`, then calls `onChange` once the writes have settled.
+ */
+export function watchPreviewOutput(dir: string, onChange?: () => void): fs.FSWatcher | undefined {
+    injectPreviewBridge(dir);
+    let settleTimer: NodeJS.Timeout | undefined;
+    try {
+        const watcher = fs.watch(dir, (_event, fileName) => {
+            if (fileName && fileName.toString().endsWith('.html')) {
+                injectIntoFile(path.join(dir, fileName.toString()));
+                clearTimeout(settleTimer);
+                settleTimer = onChange && setTimeout(onChange, 300);
+            }
+        });
+        watcher.on('close', () => clearTimeout(settleTimer));
+        return watcher;
+    } catch (e) {
+        QuarkdownLogger.getInstance().error(`Error watching preview output ${dir}:`, e);
+        return undefined;
+    }
+}
@@ -0,0 +1,90 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const CACHE_PREFIX = 'quarkdown-preview-';
+// Holds the id of the extension host process using a cache directory
+const OWNER_FILE = '.owner';
+
+/**
+ * Stable name of the cache directory of `filePath`: the same document gets the same
+ * directory in every session, instead of a new one per preview.
+ */
+export function cacheDirectoryName(filePath: string): string {
+    const baseName = path.basename(filePath, path.extname(filePath)).replace(/[^A-Za-z0-9_-]+/g, '-');
+    const hash = crypto.createHash('sha1').update(path.resolve(filePath)).digest('hex').slice(0, 10);
+    return `${CACHE_PREFIX}${baseName}-${hash}`;
+}
+
+/**
+ * Creates or reuses the cache directory of `filePath` under `baseDir` and marks it as used
+ * by process `pid`. A directory still used by another running process, such as another
+ * VS Code window previewing the same document, is left alone for a numbered sibling.
+ */
+export function acquireCacheDirectory(baseDir: string, filePath: string, pid: number = process.pid): string {
+    const name = cacheDirectoryName(filePath);
+    for (let attempt = 1; ; attempt++) {
+        const dir = path.join(baseDir, attempt === 1 ? name : `${name}-${attempt}`);
+        const owner = readOwner(dir);
+        if (owner === undefined || owner === pid || !isProcessAlive(owner)) {
+            fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(path.join(dir, OWNER_FILE), String(pid), 'utf8');
+            return dir;
+        }
+    }
+}
+
+export function removeCacheDirectory(dir: string): void {
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+/**
+ * Removes the cache directories under `baseDir` that no running process uses: those of
+ * exited processes, those of process `pid` missing from `inUse`, and those without an owner,
+ * e.g. left by versions that created a new directory per preview.
+ *
+ * @returns the removed directories
+ */
+export function sweepCacheDirectories(baseDir: string, inUse: Set<string>, pid: number = process.pid): string[] {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(baseDir, { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    const removed: string[] = [];
+    for (const entry of entries) {
+        if (!entry.isDirectory() || !entry.name.startsWith(CACHE_PREFIX)) {
+            continue;
+        }
+        const dir = path.join(baseDir, entry.name);
+        const owner = readOwner(dir);
+        const orphaned = owner === undefined || (owner === pid ? !inUse.has(dir) : !isProcessAlive(owner));
+        if (orphaned) {
+            removeCacheDirectory(dir);
+            removed.push(dir);
+        }
+    }
+    return removed;
+}
+
+function readOwner(dir: string): number | undefined {
+    try {
+        const pid = parseInt(fs.readFileSync(path.join(dir, OWNER_FILE), 'utf8'), 10);
+        return isNaN(pid) ? undefined : pid;
+    } catch {
+        return undefined;
+    }
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        // Signal 0 only checks that the process exists
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        // EPERM: it exists but belongs to another user
+        return error.code === 'EPERM';
+    }
+}
@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+
+const HOST = '127.0.0.1';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.mjs': 'text/javascript; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.ttf': 'font/ttf',
+    '.otf': 'font/otf',
+    '.pdf': 'application/pdf',
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+    '.mp3': 'audio/mpeg',
+    '.txt': 'text/plain; charset=utf-8'
+};
+
+/**
+ * Static file server shared by all previews: each preview output directory is mounted
+ * under its own path prefix, so a single port serves every previewed document.
+ */
+export class PreviewServer {
+    private server: http.Server | undefined;
+    private listening: Promise<number> | undefined;
+    // Path prefix, e.g. `/1-chapter/`, to served directory
+    private mounts = new Map<string, string>();
+    private nextMountId = 1;
+
+    /**
+     * Starts listening on a free local port unless already started, and resolves to the
+     * port once the socket is bound.
+     */
+    public start(): Promise<number> {
+        if (!this.listening) {
+            const server = http.createServer((request, response) => this.handleRequest(request, response));
+            this.server = server;
+            this.listening = new Promise<number>((resolve, reject) => {
+                server.once('error', (error) => {
+                    this.server = undefined;
+                    this.listening = undefined;
+                    reject(error);
+                });
+                server.listen(0, HOST, () => resolve((server.address() as net.AddressInfo).port));
+            });
+        }
+        return this.listening;
+    }
+
+    /**
+     * Serves `dir` under a new path prefix derived from `name`, and returns the prefix.
+     */
+    public mount(dir: string, name: string): string {
+        const slug = name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+        const prefix = `/${this.nextMountId++}${slug ? '-' + slug : ''}/`;
+        this.mounts.set(prefix, dir);
+        return prefix;
+    }
+
+    /**
+     * Serves `dir` under an existing prefix instead of its previous directory.
+     */
+    public remount(prefix: string, dir: string): void {
+        if (this.mounts.has(prefix)) {
+            this.mounts.set(prefix, dir);
+        }
+    }
+
+    public unmount(prefix: string): void {
+        this.mounts.delete(prefix);
+    }
+
+    public get mountCount(): number {
+        return this.mounts.size;
+    }
+
+    /**
+     * Local URL of the directory mounted under `prefix`. The server must have started.
+     */
+    public getUrl(prefix: string): string {
+        const address = this.server?.address() as net.AddressInfo | null | undefined;
+        if (!address) {
+            throw new Error('Preview server is not running');
+        }
+        return `http://${HOST}:${address.port}${prefix}`;
+    }
+
+    /**
+     * Stops listening and forgets every mount.
+     */
+    public close(): void {
+        this.server?.close();
+        this.server = undefined;
+        this.listening = undefined;
+        this.mounts.clear();
+    }
+
+    private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+        if (request.method !== 'GET' && request.method !== 'HEAD') {
+            this.sendStatus(response, 405);
+            return;
+        }
+
+        let pathname: string;
+        try {
+            pathname = decodeURIComponent(new URL(request.url ?? '/', `http://${HOST}`).pathname);
+        } catch {
+            this.sendStatus(response, 400);
+            return;
+        }
+        // fs throws on paths containing NUL
+        if (pathname.includes('\0')) {
+            this.sendStatus(response, 400);
+            return;
+        }
+
+        const mountEnd = pathname.indexOf('/', 1);
+        if (mountEnd < 0) {
+            // Relative links of the page resolve against the prefix only with a trailing slash
+            if (this.mounts.has(pathname + '/')) {
+                response.writeHead(301, { 'Location': pathname + '/' });
+                response.end();
+            } else {
+                this.sendStatus(response, 404);
+            }
+            return;
+        }
+
+        const root = this.mounts.get(pathname.slice(0, mountEnd + 1));
+        const filePath = root && path.join(root, pathname.slice(mountEnd + 1));
+        const relative = root && filePath && path.relative(root, filePath);
+        if (!filePath || relative === undefined || relative.startsWith('..') || path.isAbsolute(relative)) {
+            this.sendStatus(response, 404);
+            return;
+        }
+
+        this.sendFile(request, response, filePath);
+    }
+
+    private sendFile(request: http.IncomingMessage, response: http.ServerResponse, filePath: string): void {
+        fs.stat(filePath, (error, stats) => {
+            if (!error && stats.isDirectory()) {
+                this.sendFile(request, response, path.join(filePath, 'index.html'));
+                return;
+            }
+            if (error || !stats.isFile()) {
+                this.sendStatus(response, 404);
+                return;
+            }
+
+            response.writeHead(200, {
+                'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+                'Content-Length': stats.size,
+                // Every recompile rewrites the output: the reloaded page must not come from the cache
+                'Cache-Control': 'no-store'
+            });
+            if (request.method === 'HEAD') {
+                response.end();
+                return;
+            }
+            fs.createReadStream(filePath)
+                .on('error', () => response.destroy())
+                .pipe(response);
+        });
+    }
+
+    private sendStatus(response: http.ServerResponse, status: number): void {
+        response.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+        response.end(http.STATUS_CODES[status]);
+    }
+}
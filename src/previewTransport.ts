@@ -0,0 +1,37 @@
+/**
+ * How the preview webview reaches the compiled output:
+ * - `localhost`: an iframe on the preview server, on the extension host's localhost
+ * - `forwarded`: the same server through `vscode.env.asExternalUri` port forwarding
+ * - `webviewResource`: the output files loaded as webview resources, without a server
+ */
+export type PreviewTransport = 'localhost' | 'forwarded' | 'webviewResource';
+
+export type PreviewTransportSetting = PreviewTransport | 'auto';
+
+/**
+ * Resolves the `quarkdownPreview.previewTransport` setting. In a remote window (SSH, WSL,
+ * dev containers, Codespaces) the webview does not run on the extension host, so `auto`
+ * loads the output as webview resources rather than from a localhost server.
+ */
+export function choosePreviewTransport(setting: PreviewTransportSetting | undefined, remoteName: string | undefined): PreviewTransport {
+    if (setting && setting !== 'auto') {
+        return setting;
+    }
+    return remoteName ? 'webviewResource' : 'localhost';
+}
+
+/**
+ * `frame-src` sources of the webview content security policy for `transport`.
+ * `cspSource` is the webview's own resource origin.
+ */
+export function previewFrameSources(transport: PreviewTransport, cspSource: string): string {
+    switch (transport) {
+        case 'webviewResource':
+            return cspSource;
+        case 'forwarded':
+            // The forwarded address is only known once the server has started
+            return 'http://localhost:* http://127.0.0.1:* https:';
+        default:
+            return 'http://127.0.0.1:* http://localhost:*';
+    }
+}
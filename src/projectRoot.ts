@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { collectIncludeChain, findRootFile } from './includes';
+import { readQuarkdownSource } from './language';
+import { QuarkdownSymbolIndex } from './symbolIndex';
+import { QuarkdownLogger } from './logger';
+
+/**
+ * Finds the entry file of the project `document` belongs to: the configured
+ * `quarkdownPreview.mainDocument` if it includes `document` (directly or not),
+ * otherwise the topmost file of the workspace that includes it.
+ * A document that nothing includes is its own root.
+ */
+export async function findRootPath(document: vscode.TextDocument): Promise<string> {
+    if (document.uri.scheme !== 'file') {
+        return document.uri.fsPath;
+    }
+    const filePath = path.resolve(document.uri.fsPath);
+
+    const configured = vscode.workspace.getConfiguration('quarkdownPreview', document.uri).get<string>('mainDocument', '').trim();
+    if (configured) {
+        const baseDir = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath ?? path.dirname(filePath);
+        const mainPath = path.resolve(baseDir, configured);
+        if (collectIncludeChain(mainPath, readQuarkdownSource).some(source => source.filePath === filePath)) {
+            return mainPath;
+        }
+    }
+
+    const index = QuarkdownSymbolIndex.getInstance();
+    await index.ready();
+    return findRootFile(filePath, includedPath => index.findIncluders(includedPath));
+}
+
+/**
+ * Opens the root document of the project `document` belongs to, see `findRootPath`.
+ */
+export async function resolveRootDocument(document: vscode.TextDocument): Promise<vscode.TextDocument> {
+    const rootPath = await findRootPath(document);
+    if (rootPath === path.resolve(document.uri.fsPath)) {
+        return document;
+    }
+
+    try {
+        const rootDocument = await vscode.workspace.openTextDocument(vscode.Uri.file(rootPath));
+        QuarkdownLogger.getInstance().info(`Using ${rootPath} as the root document of ${document.uri.fsPath}`);
+        return rootDocument;
+    } catch (error) {
+        QuarkdownLogger.getInstance().error(`Cannot open root document ${rootPath}:`, error);
+        return document;
+    }
+}
+
+/**
+ * The entry files of the workspace: the indexed Quarkdown files that no other file includes.
+ */
+export async function findProjectFiles(): Promise<string[]> {
+    const index = QuarkdownSymbolIndex.getInstance();
+    await index.ready();
+    return index.getIndexedFiles()
+        .filter(filePath => index.findIncluders(filePath).length === 0)
+        .sort((a, b) => vscode.workspace.asRelativePath(a).localeCompare(vscode.workspace.asRelativePath(b)));
+}
@@ -3,14 +3,80 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { spawn, ChildProcess } from 'child_process';
-import * as net from 'net';
+import { syncShadowCopy } from './shadowWorkspace';
+import { injectPreviewBridge, watchPreviewOutput } from './previewBridge';
+import { findHeadings, headingAtLine, normalizeHeadingText } from './headings';
+import { collectIncludeChain } from './includes';
+import { readQuarkdownSource } from './language';
+import { QuarkdownCommandError, parseCompileErrors } from './compileErrors';
+import { CompileDiagnostics, CompileLocation } from './diagnostics';
+import { QuarkdownLogger } from './logger';
+import { findStdlibFunction } from './stdlibCatalog';
+import { PreviewDependencyTracker } from './dependencyTracker';
+import { getPresenterContent } from './presenterView';
+import { PreviewServer } from './previewServer';
+import { acquireCacheDirectory, removeCacheDirectory, sweepCacheDirectories } from './previewCache';
+import { PreviewTransport, PreviewTransportSetting, choosePreviewTransport, previewFrameSources } from './previewTransport';
+import { CompileProfile, CompileTarget, buildProfileArgs, containsOnlyOutput, isSafeToClean, resolveProfileOutput } from './compileProfiles';
+import { mirrorOutputDirectory, runBatch } from './batch';
+
+export interface RunningPreview {
+    filePath: string;
+    // Local URL on the shared preview server, undefined when loaded as webview resources
+    url?: string;
+    tempDir: string;
+    outputDir: string;
+    watchMode: boolean;
+}
+
+/**
+ * What the preview webview keeps in its state, besides its scroll position and zoom.
+ */
+export interface PreviewPanelState {
+    documentUri?: string;
+    locked?: boolean;
+}
 
 export class QuarkdownPreviewManager {
     private static instance: QuarkdownPreviewManager;
     private runningProcesses = new Map<string, ChildProcess>();
     private webviewPanels = new Map<string, vscode.WebviewPanel>();
-    private activePorts = new Map<string, number>();
     private activeTempDirs = new Map<string, string>();
+    // Number of compiles running in each cache directory, of previews or one-off
+    private compilingTempDirs = new Map<string, number>();
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+    private compilingPreviews = new Set<string>();
+    private queuedRecompiles = new Set<string>();
+    private watchModePreviews = new Set<string>();
+    private watchModeSupport = new Map<string, Promise<boolean>>();
+    private outputWatchers = new Map<string, fs.FSWatcher>();
+    private lastRevealedSource = 0;
+    private watchOutputs = new Map<string, string>();
+    // Shadow copy of the document each watch process compiles
+    private watchShadowFiles = new Map<string, string>();
+    private diagnostics = new CompileDiagnostics();
+    private previewDocuments = new Map<string, vscode.TextDocument>();
+    private dependencies = new PreviewDependencyTracker((previewPaths, changedPath) => this.handleDependencyChange(previewPaths, changedPath));
+    private previewsChanged = new vscode.EventEmitter<void>();
+    private previewUrls = new Map<string, string>();
+    private previewTransports = new Map<string, PreviewTransport>();
+    // Output directory each preview loads, from the preview server or as webview resources
+    private serveDirs = new Map<string, string>();
+    // Path prefix of each preview mounted on the preview server
+    private servedPrefixes = new Map<string, string>();
+    private previewServer = new PreviewServer();
+    private presenterPanels = new Map<string, vscode.WebviewPanel>();
+    // Latest start of each preview, see startPreviewInBackground
+    private previewGenerations = new Map<string, number>();
+    private previewGeneration = 0;
+    // The preview that follows the active editor; the others are locked to their document
+    private dynamicPreview: vscode.WebviewPanel | undefined;
+    // Last slide shown by the preview or the presenter of each deck
+    private currentSlides = new Map<string, { h: number; v: number }>();
+
+    /** Fired when a preview starts or stops */
+    public readonly onDidChangePreviews = this.previewsChanged.event;
+    private logger = QuarkdownLogger.getInstance();
 
     public static getInstance(): QuarkdownPreviewManager {
         if (!QuarkdownPreviewManager.instance) {
@@ -19,9 +85,13 @@ export class QuarkdownPreviewManager {
         return QuarkdownPreviewManager.instance;
     }
 
-    public async openPreview(document: vscode.TextDocument, toSide: boolean = false): Promise<void> {
+    /**
+     * Shows the preview of `document`. Unless `locked`, the preview is the dynamic one, which
+     * follows the active editor: an open dynamic preview switches to `document` instead of
+     * opening another panel.
+     */
+    public async openPreview(document: vscode.TextDocument, toSide: boolean = false, locked: boolean = false): Promise<void> {
         const filePath = document.uri.fsPath;
-        const fileName = path.basename(filePath, '.qmd');
 
         const existingPanel = this.webviewPanels.get(filePath);
         if (existingPanel) {
@@ -29,34 +99,184 @@ export class QuarkdownPreviewManager {
             return;
         }
 
-        if (document.isDirty) {
-            const saveResult = await vscode.window.showWarningMessage(
-                'File must be saved before preview. Save now?', { modal: true }, 'Save & Preview', 'Cancel'
-            );
-            if (saveResult === 'Save & Preview') {
-                await document.save();
-            } else {
-                return;
-            }
+        if (!locked && this.dynamicPreview) {
+            this.switchPreview(this.dynamicPreview, document);
+            this.dynamicPreview.reveal();
+            return;
         }
 
         this.stopProcess(filePath);
 
+        const transport = this.getPreviewTransport();
         const panel = vscode.window.createWebviewPanel(
             'quarkdownPreview',
-            `Preview: ${fileName}`,
+            this.getPreviewTitle(document, locked),
             toSide ? vscode.ViewColumn.Beside : vscode.ViewColumn.One,
             {
                 enableScripts: true,
                 retainContextWhenHidden: true,
-                localResourceRoots: [],
+                localResourceRoots: this.getLocalResourceRoots(transport),
             }
         );
 
-        panel.webview.html = this.getWebviewContent();
+        panel.webview.html = this.getWebviewContent(previewFrameSources(transport, panel.webview.cspSource));
+        this.registerPreviewPanel(panel, locked);
+        this.bindPreview(panel, document, transport);
+
+        this.startPreviewInBackground(document, panel).catch(error => {
+            this.handlePreviewError(error, filePath);
+        });
+    }
+
+    /**
+     * Restores a preview panel kept by VS Code across window reloads. The webview state holds
+     * the document, the lock, the scroll position and the zoom; the preview only compiles and
+     * starts serving once the panel is visible.
+     */
+    public async restorePreview(panel: vscode.WebviewPanel, state: PreviewPanelState | undefined): Promise<void> {
+        let document: vscode.TextDocument | undefined;
+        try {
+            document = state?.documentUri ? await vscode.workspace.openTextDocument(vscode.Uri.parse(state.documentUri)) : undefined;
+        } catch (error) {
+            this.logger.warn(`Unable to restore the preview of ${state?.documentUri}: ${error}`);
+        }
+        if (!document || this.webviewPanels.has(document.uri.fsPath)) {
+            // The document is gone, or its preview was opened before the panel got restored
+            panel.dispose();
+            return;
+        }
+
+        const filePath = document.uri.fsPath;
+        const transport = this.getPreviewTransport();
+        // Only one preview follows the active editor
+        const locked = !!state?.locked || this.dynamicPreview !== undefined;
+        panel.webview.options = {
+            enableScripts: true,
+            localResourceRoots: this.getLocalResourceRoots(transport),
+        };
+        panel.webview.html = this.getWebviewContent(previewFrameSources(transport, panel.webview.cspSource));
+        this.registerPreviewPanel(panel, locked);
+        this.bindPreview(panel, document, transport);
+
+        const start = () => {
+            const current = this.getPanelDocument(panel);
+            if (current) {
+                this.startPreviewInBackground(current, panel).catch(error => {
+                    this.handlePreviewError(error, current.uri.fsPath);
+                });
+            }
+        };
+        if (panel.visible) {
+            start();
+            return;
+        }
+        const visibilityListener = panel.onDidChangeViewState(() => {
+            if (panel.visible) {
+                visibilityListener.dispose();
+                start();
+            }
+        });
+        panel.onDidDispose(() => visibilityListener.dispose());
+        this.logger.debug(`Restored the preview of ${filePath}, waiting for it to be shown`);
+    }
+
+    /**
+     * Switches the dynamic preview to `document`, the root document of the active editor,
+     * unless it already shows it or another preview does.
+     */
+    public followActiveDocument(document: vscode.TextDocument): void {
+        const panel = this.dynamicPreview;
+        if (panel && !this.webviewPanels.has(document.uri.fsPath)) {
+            this.switchPreview(panel, document);
+        }
+    }
+
+    /**
+     * Locks the active preview to its document, or unlocks it so that it follows the active
+     * editor again; the preview that was dynamic until then gets locked.
+     */
+    public togglePreviewLock(): void {
+        const panel = [...this.webviewPanels.values()].find(candidate => candidate.active);
+        const document = panel && this.getPanelDocument(panel);
+        if (!panel || !document) {
+            vscode.window.showInformationMessage('No active Quarkdown preview');
+            return;
+        }
+
+        this.setPreviewLocked(panel, panel === this.dynamicPreview);
+    }
+
+    private setPreviewLocked(panel: vscode.WebviewPanel, locked: boolean): void {
+        const previous = this.dynamicPreview;
+        if (locked) {
+            this.dynamicPreview = previous === panel ? undefined : previous;
+        } else {
+            this.dynamicPreview = panel;
+        }
+        for (const updated of [previous, panel]) {
+            const document = updated && this.getPanelDocument(updated);
+            if (updated && document) {
+                const updatedLocked = updated !== this.dynamicPreview;
+                updated.title = this.getPreviewTitle(document, updatedLocked);
+                updated.webview.postMessage({ command: 'setLocked', locked: updatedLocked });
+            }
+        }
+    }
+
+    private getPreviewTitle(document: vscode.TextDocument, locked: boolean): string {
+        const fileName = path.basename(document.uri.fsPath, '.qmd');
+        // Same convention as the Markdown preview
+        return locked ? `[Preview] ${fileName}` : `Preview: ${fileName}`;
+    }
+
+    private getPanelDocument(panel: vscode.WebviewPanel): vscode.TextDocument | undefined {
+        for (const [filePath, candidate] of this.webviewPanels) {
+            if (candidate === panel) {
+                return this.previewDocuments.get(filePath);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Shows `document` in the existing `panel`: the previous document stops being previewed and
+     * the new one is compiled and mounted on the same preview server.
+     */
+    private switchPreview(panel: vscode.WebviewPanel, document: vscode.TextDocument): void {
+        const previous = this.getPanelDocument(panel);
+        if (previous?.uri.fsPath === document.uri.fsPath) {
+            return;
+        }
+        const transport = previous && this.previewTransports.get(previous.uri.fsPath) || this.getPreviewTransport();
+        if (previous) {
+            this.unbindPreview(previous.uri.fsPath);
+        }
+
+        this.stopProcess(document.uri.fsPath);
+        this.bindPreview(panel, document, transport);
+        panel.title = this.getPreviewTitle(document, panel !== this.dynamicPreview);
+        this.startPreviewInBackground(document, panel).catch(error => {
+            this.handlePreviewError(error, document.uri.fsPath);
+        });
+    }
+
+    /**
+     * Handles the messages and the lifetime of a preview panel, whichever document it shows.
+     */
+    private registerPreviewPanel(panel: vscode.WebviewPanel, locked: boolean): void {
+        if (!locked) {
+            this.dynamicPreview = panel;
+        }
+        // Kept in the webview state for restoring the panel after a window reload
+        panel.webview.postMessage({ command: 'setLocked', locked: locked });
 
         // 处理来自webview的消息
         panel.webview.onDidReceiveMessage(async (message) => {
+            const document = this.getPanelDocument(panel);
+            if (!document) {
+                return;
+            }
+            const filePath = document.uri.fsPath;
             switch (message.command) {
                 case 'refreshPreview':
                     try {
@@ -74,136 +294,670 @@ export class QuarkdownPreviewManager {
                         this.handlePreviewError(error, filePath);
                     });
                     break;
+                case 'revealSource':
+                    await this.revealSourceLocation(document, message);
+                    break;
+                case 'slideChanged':
+                    this.syncSlide(filePath, message.slide, panel);
+                    break;
             }
         });
 
         panel.onDidDispose(() => {
-            this.webviewPanels.delete(filePath);
-            this.stopProcess(filePath);
+            const document = this.getPanelDocument(panel);
+            if (document) {
+                this.unbindPreview(document.uri.fsPath);
+            }
+            if (this.dynamicPreview === panel) {
+                this.dynamicPreview = undefined;
+            }
         });
+    }
+
+    private bindPreview(panel: vscode.WebviewPanel, document: vscode.TextDocument, transport: PreviewTransport): void {
+        const filePath = document.uri.fsPath;
+        // Kept in the webview state for restoring the panel after a window reload
+        panel.webview.postMessage({ command: 'setDocument', uri: document.uri.toString() });
 
         this.webviewPanels.set(filePath, panel);
+        this.previewDocuments.set(filePath, document);
+        this.previewTransports.set(filePath, transport);
+    }
 
-        this.startPreviewInBackground(document, panel).catch(error => {
-            this.handlePreviewError(error, filePath);
+    private unbindPreview(filePath: string): void {
+        this.webviewPanels.delete(filePath);
+        this.previewDocuments.delete(filePath);
+        this.previewTransports.delete(filePath);
+        this.currentSlides.delete(filePath);
+        // The presenter shows the slides served for this preview
+        this.presenterPanels.get(filePath)?.dispose();
+        this.stopProcess(filePath);
+    }
+
+    /**
+     * Opens the presenter view of a slide deck, with the current and next slides, speaker
+     * notes and a timer. The preview of the deck, opened if needed, is the audience view:
+     * it can be moved to another window and follows the presenter, and the other way round.
+     */
+    public async openPresenter(document: vscode.TextDocument): Promise<void> {
+        const filePath = document.uri.fsPath;
+        const existingPanel = this.presenterPanels.get(filePath);
+        if (existingPanel) {
+            existingPanel.reveal();
+            return;
+        }
+
+        // The audience view must not follow the editor to another document during the talk
+        const audiencePanel = this.webviewPanels.get(filePath);
+        if (!audiencePanel) {
+            await this.openPreview(document, true, true);
+        } else if (audiencePanel === this.dynamicPreview) {
+            this.setPreviewLocked(audiencePanel, true);
+        }
+
+        // Shows the same URL as the preview, so it must be able to load it the same way
+        const transport = this.previewTransports.get(filePath) ?? this.getPreviewTransport();
+        const panel = vscode.window.createWebviewPanel(
+            'quarkdownPresenter',
+            `Presenter: ${path.basename(filePath, path.extname(filePath))}`,
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: this.getLocalResourceRoots(transport),
+            }
+        );
+        panel.webview.html = getPresenterContent(previewFrameSources(transport, panel.webview.cspSource));
+
+        panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'slideChanged') {
+                this.syncSlide(filePath, message.slide, panel);
+            }
         });
+        panel.onDidDispose(() => this.presenterPanels.delete(filePath));
+        this.presenterPanels.set(filePath, panel);
+
+        // Otherwise the preview posts the URL once its server has started
+        const url = this.previewUrls.get(filePath);
+        if (url) {
+            panel.webview.postMessage({ command: 'loadUrl', url: url });
+        }
+        const slide = this.currentSlides.get(filePath);
+        if (slide) {
+            panel.webview.postMessage({ command: 'goToSlide', slide: slide });
+        }
+    }
+
+    /**
+     * Moves the preview and the presenter of a deck to the slide `from` switched to.
+     */
+    private syncSlide(filePath: string, slide: { h: number; v: number }, from: vscode.WebviewPanel): void {
+        const last = this.currentSlides.get(filePath);
+        if (!slide || last && last.h === slide.h && last.v === slide.v) {
+            return;
+        }
+        this.currentSlides.set(filePath, slide);
+        for (const panel of [this.webviewPanels.get(filePath), this.presenterPanels.get(filePath)]) {
+            if (panel && panel !== from) {
+                panel.webview.postMessage({ command: 'goToSlide', slide: slide });
+            }
+        }
     }
 
     private async startPreviewInBackground(document: vscode.TextDocument, panel: vscode.WebviewPanel): Promise<void> {
         const filePath = document.uri.fsPath;
-        const postMessage = (message: any) => panel.webview.postMessage(message);
+        // A later start, a stop or a switch of the dynamic preview to another document
+        // supersedes this run: it must then leave the preview state alone after every await
+        const generation = ++this.previewGeneration;
+        this.previewGenerations.set(filePath, generation);
+        const isCurrent = () => this.previewGenerations.get(filePath) === generation && this.webviewPanels.get(filePath) === panel;
+
+        // The presenter of a slide deck follows the state of its preview
+        const postMessage = (message: any) => {
+            if (!isCurrent()) {
+                return;
+            }
+            panel.webview.postMessage(message);
+            this.presenterPanels.get(filePath)?.webview.postMessage(message);
+        };
 
         try {
             postMessage({ command: 'updateStatus', text: 'Creating temporary preview directory...' });
-            const tempDir = this.createTempDirectory(path.basename(filePath, '.qmd'));
+            const tempDir = this.acquireTempDirectory(filePath);
             this.activeTempDirs.set(filePath, tempDir);
+            // Output of a previous session may be named after an older title
+            fs.rmSync(this.getPreviewOutputDir(tempDir), { recursive: true, force: true });
 
             postMessage({ command: 'updateStatus', text: 'Compiling document...' });
-            await this.executeQuarkdownCommand(['c', filePath, '-o', tempDir], path.dirname(filePath));
+            await this.compilePreviewSource(document, tempDir);
+            if (!isCurrent()) {
+                return;
+            }
+            const serveDir = this.findServeDirectory(this.getPreviewOutputDir(tempDir));
+            this.serveDirs.set(filePath, serveDir);
 
-            postMessage({ command: 'updateStatus', text: 'Looking for preview files...' });
-            let serveDir = tempDir;
-            const htmlFiles = this.findFilesRecursively(tempDir, '*.html');
-            const indexHtmlFile = htmlFiles.find(f => path.basename(f) === 'index.html');
+            const watchMode = await this.isWatchModeAvailable();
+            if (!isCurrent()) {
+                return;
+            }
+            if (watchMode) {
+                postMessage({ command: 'updateStatus', text: 'Starting Quarkdown in watch mode...' });
+                this.startWatchProcess(document, tempDir, serveDir);
+            }
 
-            if (indexHtmlFile) {
-                serveDir = path.dirname(indexHtmlFile);
+            const transport = this.previewTransports.get(filePath) ?? this.getPreviewTransport();
+            let url: string;
+            if (transport === 'webviewResource') {
+                url = this.getResourceUrl(panel.webview, serveDir);
             } else {
-                try {
-                    const entries = fs.readdirSync(tempDir, { withFileTypes: true });
-                    const directories = entries.filter(e => e.isDirectory());
-                    if (directories.length === 1) {
-                        serveDir = path.join(tempDir, directories[0].name);
-                        console.log(`index.html not found, but found unique subdirectory, will use: ${serveDir}`);
-                    }
-                } catch (e) {
-                    console.error("Error finding output subdirectory: ", e);
+                postMessage({ command: 'updateStatus', text: 'Starting preview server...' });
+                const port = await this.previewServer.start();
+                if (!isCurrent()) {
+                    return;
+                }
+                url = await this.getServerUrl(this.servePreview(filePath, serveDir, port), transport);
+                if (!isCurrent()) {
+                    return;
                 }
             }
+            this.previewsChanged.fire();
 
-            postMessage({ command: 'updateStatus', text: 'Starting preview server...' });
-            const port = await this.getAvailablePort();
-            const config = vscode.workspace.getConfiguration('quarkdownPreview');
-            const quarkdownPath = config.get<string>('quarkdownPath', 'quarkdown');
+            this.previewUrls.set(filePath, url);
+            postMessage({ command: 'loadUrl', url: url });
+            this.dependencies.track(document);
+
+        } catch (error: any) {
+            if (isCurrent()) {
+                postMessage({ command: 'showError', text: error.message });
+                this.stopProcess(filePath);
+            }
+        }
+    }
+
+    private getPreviewTransport(): PreviewTransport {
+        const setting = vscode.workspace.getConfiguration('quarkdownPreview').get<PreviewTransportSetting>('previewTransport', 'auto');
+        return choosePreviewTransport(setting, vscode.env.remoteName);
+    }
+
+    // Preview temp directories are created under this directory
+    private getLocalResourceRoots(transport: PreviewTransport): vscode.Uri[] {
+        return transport === 'webviewResource' ? [vscode.Uri.file(this.getTempBaseDirectory())] : [];
+    }
+
+    private async getServerUrl(url: string, transport: PreviewTransport): Promise<string> {
+        if (transport !== 'forwarded') {
+            return url;
+        }
+        const externalUri = await vscode.env.asExternalUri(vscode.Uri.parse(url));
+        this.logger.info(`Preview server ${url} forwarded to ${externalUri.toString(true)}`);
+        return externalUri.toString(true);
+    }
+
+    private isPreviewRunning(filePath: string): boolean {
+        return this.serveDirs.has(filePath);
+    }
+
+    /**
+     * Mounts `serveDir` on the started preview server shared by all previews, in place of
+     * a previous mount of `filePath`, and returns its local URL.
+     */
+    private servePreview(filePath: string, serveDir: string, port: number): string {
+        const previousPrefix = this.servedPrefixes.get(filePath);
+        if (previousPrefix) {
+            this.previewServer.unmount(previousPrefix);
+        }
+        const prefix = this.previewServer.mount(serveDir, path.basename(filePath, path.extname(filePath)));
+        this.servedPrefixes.set(filePath, prefix);
+        this.logger.info(`Serving the preview of ${filePath} on port ${port} under ${prefix}`);
+        return this.previewServer.getUrl(prefix);
+    }
+
+    private getResourceUrl(webview: vscode.Webview, serveDir: string): string {
+        return webview.asWebviewUri(vscode.Uri.file(path.join(serveDir, 'index.html'))).toString();
+    }
+
+    /**
+     * Starts a long-lived `quarkdown c --watch` process on the shadow copy, which recompiles
+     * whenever the shadow copy is synced; the preview reloads once the output is rewritten.
+     * Should the process stop, updates fall back to compiling separately.
+     */
+    private startWatchProcess(document: vscode.TextDocument, tempDir: string, serveDir: string): void {
+        const filePath = document.uri.fsPath;
+        const config = vscode.workspace.getConfiguration('quarkdownPreview');
+        const quarkdownPath = config.get<string>('quarkdownPath', 'quarkdown');
+        const shadow = syncShadowCopy(document, this.getPreviewShadowDir(tempDir));
+        const args = ['c', shadow.filePath, '-o', this.getPreviewOutputDir(tempDir), '--watch'];
+        const cwd = path.dirname(shadow.filePath);
+
+        // Replaces the watch process of an earlier start
+        this.runningProcesses.get(filePath)?.kill('SIGTERM');
+        this.outputWatchers.get(filePath)?.close();
+        this.outputWatchers.delete(filePath);
+
+        const startTime = Date.now();
+        this.logger.logInvocationStart(quarkdownPath, args, cwd);
+        const watchProcess = spawn(quarkdownPath, args, {
+            cwd: cwd,
+            stdio: 'pipe'
+        });
+
+        // Compile errors are only visible in the watch process output: collect what it
+        // printed for the compile in progress, since the shadow copy or the output last changed
+        const location = this.getPreviewCompileLocation(tempDir, cwd, shadow.sourceRoot);
+        const onOutput = (data: Buffer) => {
+            const chunk = data.toString();
+            // Compile errors are logged at the default level, the rest only when debugging
+            const message = `[watch ${path.basename(filePath)}] ${chunk.trimEnd()}`;
+            if (parseCompileErrors(chunk).length > 0) {
+                this.logger.error(message);
+            } else {
+                this.logger.debug(message);
+            }
+            const watchOutput = (this.watchOutputs.get(filePath) ?? '') + chunk;
+            this.watchOutputs.set(filePath, watchOutput);
+            this.diagnostics.report(document, watchOutput, location);
+        };
+        watchProcess.stdout?.on('data', onOutput);
+        watchProcess.stderr?.on('data', onOutput);
 
-            const serverArgs = ['start', '-f', serveDir, '--port', port.toString()];
-            const serverProcess = spawn(quarkdownPath, serverArgs, {
-                cwd: path.dirname(filePath),
-                stdio: 'pipe'
+        // Ignore processes that were stopped or replaced in the meantime
+        const fallBack = (reason: string) => {
+            if (this.runningProcesses.get(filePath) !== watchProcess) {
+                return;
+            }
+            this.logger.warn(`Watch mode stopped (${reason}), falling back to separate compiles`);
+            this.runningProcesses.delete(filePath);
+            this.watchModePreviews.delete(filePath);
+            this.watchOutputs.delete(filePath);
+            this.watchShadowFiles.delete(filePath);
+            this.outputWatchers.get(filePath)?.close();
+            this.outputWatchers.delete(filePath);
+            this.previewsChanged.fire();
+        };
+        watchProcess.on('exit', (code) => {
+            this.logger.logInvocation({
+                command: quarkdownPath,
+                args: args,
+                cwd: cwd,
+                durationMs: Date.now() - startTime,
+                exitCode: code,
+                // What it printed for the last, unfinished compile
+                output: this.runningProcesses.get(filePath) === watchProcess ? this.watchOutputs.get(filePath) ?? '' : ''
             });
+            fallBack(`exit code ${code}`);
+        });
+        watchProcess.on('error', (err) => fallBack(err.message));
+
+        this.runningProcesses.set(filePath, watchProcess);
+        this.watchModePreviews.add(filePath);
+        this.watchShadowFiles.set(filePath, shadow.filePath);
+        // A rewritten output ends a compile: its errors, if any, replace those of the previous one
+        const outputWatcher = watchPreviewOutput(serveDir, () => {
+            this.diagnostics.report(document, this.watchOutputs.get(filePath) ?? '', location);
+            this.watchOutputs.delete(filePath);
+            this.reloadPreview(filePath);
+        });
+        if (outputWatcher) {
+            this.outputWatchers.set(filePath, outputWatcher);
+        }
+    }
+
+    private reloadPreview(filePath: string): void {
+        this.webviewPanels.get(filePath)?.webview.postMessage({ command: 'reload' });
+        this.presenterPanels.get(filePath)?.webview.postMessage({ command: 'reload' });
+    }
 
-            serverProcess.on('exit', (code) => {
-                if (code !== 0 && code !== null) {
-                    postMessage({ command: 'showError', text: `Preview server exited abnormally with code: ${code}` });
+    private findServeDirectory(outputDir: string): string {
+        let serveDir = outputDir;
+        const htmlFiles = this.findFilesRecursively(outputDir, '*.html');
+        const indexHtmlFile = htmlFiles.find(f => path.basename(f) === 'index.html');
+
+        if (indexHtmlFile) {
+            serveDir = path.dirname(indexHtmlFile);
+        } else {
+            try {
+                const entries = fs.readdirSync(outputDir, { withFileTypes: true });
+                const directories = entries.filter(e => e.isDirectory());
+                if (directories.length === 1) {
+                    serveDir = path.join(outputDir, directories[0].name);
+                    this.logger.debug(`index.html not found, but found unique subdirectory, will use: ${serveDir}`);
                 }
-                this.stopProcess(filePath);
+            } catch (e) {
+                this.logger.error('Error finding output subdirectory:', e);
+            }
+        }
+
+        return serveDir;
+    }
+
+    /**
+     * Whether previews should use Quarkdown's watch mode: enabled in the settings and
+     * supported by the installed Quarkdown, whose `compile --help` must list the flags we pass.
+     */
+    private async isWatchModeAvailable(): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('quarkdownPreview');
+        if (!config.get<boolean>('useWatchMode', true)) {
+            return false;
+        }
+
+        const quarkdownPath = config.get<string>('quarkdownPath', 'quarkdown');
+        let support = this.watchModeSupport.get(quarkdownPath);
+        if (!support) {
+            support = this.getCommandHelp(quarkdownPath, ['c', '--help']).then(help =>
+                help.includes('--watch')
+            );
+            this.watchModeSupport.set(quarkdownPath, support);
+        }
+        return support;
+    }
+
+    private getCommandHelp(quarkdownPath: string, args: string[]): Promise<string> {
+        return new Promise((resolve) => {
+            let output = '';
+            const startTime = Date.now();
+            this.logger.logInvocationStart(quarkdownPath, args, process.cwd());
+            const helpProcess = spawn(quarkdownPath, args, { stdio: 'pipe', timeout: 15000 });
+            helpProcess.stdout?.on('data', (data) => { output += data.toString(); });
+            helpProcess.stderr?.on('data', (data) => { output += data.toString(); });
+            helpProcess.on('close', (code) => {
+                this.logger.logInvocation({
+                    command: quarkdownPath,
+                    args: args,
+                    cwd: process.cwd(),
+                    durationMs: Date.now() - startTime,
+                    exitCode: code,
+                    output: output
+                });
+                resolve(output);
             });
-            serverProcess.on('error', (err) => {
-                postMessage({ command: 'showError', text: `Failed to start server: ${err.message}` });
-                this.stopProcess(filePath);
+            helpProcess.on('error', (error) => {
+                this.logger.error('Failed to start Quarkdown process:', error);
+                resolve('');
             });
+        });
+    }
 
-            this.runningProcesses.set(filePath, serverProcess);
-            this.activePorts.set(filePath, port);
+    public hasPreview(document: vscode.TextDocument): boolean {
+        return this.webviewPanels.has(document.uri.fsPath);
+    }
 
-            await new Promise<void>((resolve, reject) => {
-                let errorOutput = '';
-                let resolved = false;
+    /**
+     * Scrolls the preview of `document` to the element rendered from `line`, or to the
+     * heading of the section containing it when the output carries no source lines.
+     * For a chapter included by previewed documents, their previews are scrolled to the
+     * heading instead, since source lines refer to the root document.
+     */
+    public scrollPreviewToLine(document: vscode.TextDocument, line: number): void {
+        // Skip the visible range change caused by revealing a line double-clicked in the preview
+        if (Date.now() - this.lastRevealedSource < 500) {
+            return;
+        }
+        this.postSourceLocation(document, line, 'scrollToSource');
+    }
 
-                const resolveOnce = () => { if (!resolved) { resolved = true; resolve(); } };
-                const rejectOnce = (err: Error) => { if (!resolved) { resolved = true; reject(err); } };
+    /**
+     * Outlines the page of a paged preview that contains `line`, e.g. the editor's cursor.
+     */
+    public highlightPreviewLine(document: vscode.TextDocument, line: number): void {
+        this.postSourceLocation(document, line, 'highlightSource');
+    }
 
-                serverProcess.stdout?.on('data', (data) => {
-                    if (data.toString().includes('Serving') || data.toString().includes('Webserver running')) {
-                        resolveOnce();
-                    }
-                });
-                serverProcess.stderr?.on('data', (data) => { errorOutput += data.toString(); });
-                serverProcess.on('error', (err) => rejectOnce(err));
-                serverProcess.on('exit', (code) => {
-                    if (code !== 0 && code !== null) {
-                        rejectOnce(new Error(`Server process exited abnormally with code: ${code}. Details: ${errorOutput}`));
-                    }
-                });
+    private postSourceLocation(document: vscode.TextDocument, line: number, command: 'scrollToSource' | 'highlightSource'): void {
+        const heading = headingAtLine(findHeadings(document.getText()), line);
+        const panel = this.webviewPanels.get(document.uri.fsPath);
+        if (panel) {
+            panel.webview.postMessage({
+                command: command,
+                line: line,
+                heading: heading ? { text: heading.text, index: heading.index } : undefined
+            });
+            return;
+        }
 
-                setTimeout(() => {
-                    if (!resolved && !serverProcess.killed) resolveOnce();
-                    else if (!resolved) rejectOnce(new Error('Server startup timeout'));
-                }, 8000);
+        if (!heading) {
+            return;
+        }
+        for (const previewPath of this.dependencies.getDependents(document.uri.fsPath)) {
+            // Heading indices are relative to the chapter: match by text only
+            this.webviewPanels.get(previewPath)?.webview.postMessage({
+                command: command,
+                heading: { text: heading.text, index: -1 }
             });
+        }
+    }
 
-            postMessage({ command: 'loadUrl', url: `http://localhost:${port}` });
+    private async revealSourceLocation(
+        document: vscode.TextDocument,
+        location: { line?: number; heading?: { text: string; index: number } }
+    ): Promise<void> {
+        const config = vscode.workspace.getConfiguration('quarkdownPreview');
+        if (!config.get<boolean>('doubleClickToSwitchToEditor', true)) {
+            return;
+        }
 
-        } catch (error: any) {
-            postMessage({ command: 'showError', text: error.message });
-            this.stopProcess(filePath);
+        let target = document;
+        let line = location.line;
+        if (line === undefined && location.heading) {
+            // Headings repeat, e.g. a "Summary" per chapter: among those with the same text,
+            // take the one closest to the position of the rendered heading. The headings of
+            // included chapters are counted after those of the files including them.
+            const text = normalizeHeadingText(location.heading.text);
+            const index = location.heading.index;
+            let closest: { filePath: string; line: number; distance: number } | undefined;
+            let offset = 0;
+            for (const source of collectIncludeChain(document.uri.fsPath, readQuarkdownSource)) {
+                const headings = findHeadings(source.text);
+                for (const heading of headings) {
+                    const distance = Math.abs(offset + heading.index - index);
+                    if (text && normalizeHeadingText(heading.text) === text && (!closest || distance < closest.distance)) {
+                        closest = { filePath: source.filePath, line: heading.line, distance };
+                    }
+                }
+                offset += headings.length;
+            }
+
+            if (closest) {
+                if (closest.filePath !== path.resolve(document.uri.fsPath)) {
+                    target = await vscode.workspace.openTextDocument(vscode.Uri.file(closest.filePath));
+                }
+                line = closest.line;
+            } else {
+                line = findHeadings(document.getText())[index]?.line;
+            }
         }
+        if (line === undefined) {
+            return;
+        }
+
+        const position = new vscode.Position(Math.min(line, target.lineCount - 1), 0);
+        const editor = vscode.window.visibleTextEditors.find(e => e.document === target);
+        this.lastRevealedSource = Date.now();
+        await vscode.window.showTextDocument(target, {
+            viewColumn: editor?.viewColumn,
+            selection: new vscode.Range(position, position)
+        });
+    }
+
+    /**
+     * Recompiles the preview of `document` once no further change has been made for `delay` ms.
+     */
+    public schedulePreviewUpdate(document: vscode.TextDocument, delay: number): void {
+        const filePath = document.uri.fsPath;
+        if (!this.isPreviewRunning(filePath)) {
+            return;
+        }
+
+        clearTimeout(this.pendingUpdates.get(filePath));
+        this.pendingUpdates.set(filePath, setTimeout(() => {
+            this.pendingUpdates.delete(filePath);
+            this.recompileForPreview(document);
+        }, delay));
     }
 
     public async recompileForPreview(document: vscode.TextDocument): Promise<void> {
         const filePath = document.uri.fsPath;
         const tempDir = this.activeTempDirs.get(filePath);
 
-        if (this.runningProcesses.has(filePath) && tempDir) {
+        if (this.isPreviewRunning(filePath) && tempDir) {
+            // Includes and references may have been added or removed since the last update
+            this.dependencies.track(document);
+
+            // In watch mode Quarkdown picks up the updated shadow copy and reloads by itself
+            if (this.watchModePreviews.has(filePath)) {
+                this.watchOutputs.delete(filePath);
+                this.diagnostics.clear(document);
+                try {
+                    const shadow = syncShadowCopy(document, this.getPreviewShadowDir(tempDir));
+                    const serveDir = this.serveDirs.get(filePath);
+                    // A dependency outside of the mirrored directory moves the whole shadow copy
+                    if (shadow.filePath !== this.watchShadowFiles.get(filePath) && serveDir) {
+                        this.startWatchProcess(document, tempDir, serveDir);
+                    }
+                } catch (error) {
+                    this.handlePreviewError(error, filePath);
+                }
+                return;
+            }
+
+            // A JVM compile can outlast the debounce delay: run one at a time and
+            // compile once more afterwards if changes arrived in the meantime.
+            if (this.compilingPreviews.has(filePath)) {
+                this.queuedRecompiles.add(filePath);
+                return;
+            }
+
+            this.compilingPreviews.add(filePath);
+            // Closing or restarting the preview during the compile makes its outcome moot
+            const generation = this.previewGenerations.get(filePath);
+            const isCurrent = () => this.previewGenerations.get(filePath) === generation;
+            const statusBarMessage = vscode.window.setStatusBarMessage('$(sync~spin) Recompiling Quarkdown preview...');
             try {
-                const statusBarMessage = vscode.window.setStatusBarMessage('$(sync~spin) Recompiling Quarkdown preview...');
-                await this.executeQuarkdownCommand(
-                    ['c', filePath, '-o', tempDir],
-                    path.dirname(filePath)
-                );
+                await this.compilePreviewSource(document, tempDir);
                 statusBarMessage.dispose();
+                if (!isCurrent()) {
+                    return;
+                }
                 vscode.window.setStatusBarMessage('$(check) Preview updated', 3000);
 
+                // Renaming the document renames its output directory
                 const panel = this.webviewPanels.get(filePath);
-                if (panel) {
-                    panel.webview.postMessage({ command: 'reload' });
+                const serveDir = this.findServeDirectory(this.getPreviewOutputDir(tempDir));
+                const prefix = this.servedPrefixes.get(filePath);
+                if (panel && serveDir !== this.serveDirs.get(filePath)) {
+                    this.serveDirs.set(filePath, serveDir);
+                    if (prefix) {
+                        this.previewServer.remount(prefix, serveDir);
+                    } else {
+                        const url = this.getResourceUrl(panel.webview, serveDir);
+                        this.previewUrls.set(filePath, url);
+                        panel.webview.postMessage({ command: 'loadUrl', url: url });
+                        this.presenterPanels.get(filePath)?.webview.postMessage({ command: 'loadUrl', url: url });
+                        return;
+                    }
                 }
+                this.reloadPreview(filePath);
             } catch (error) {
-                this.handlePreviewError(error, filePath);
+                statusBarMessage.dispose();
+                if (isCurrent()) {
+                    this.handlePreviewError(error, filePath);
+                }
+            } finally {
+                this.compilingPreviews.delete(filePath);
+            }
+
+            if (this.queuedRecompiles.delete(filePath)) {
+                await this.recompileForPreview(document);
+            }
+        }
+    }
+
+    /**
+     * Schedules an update of the previews of the documents that include or reference `document`.
+     */
+    public updateDependentPreviews(document: vscode.TextDocument, delay: number): void {
+        for (const previewPath of this.dependencies.getDependents(document.uri.fsPath)) {
+            const previewDocument = this.previewDocuments.get(previewPath);
+            if (previewDocument) {
+                this.schedulePreviewUpdate(previewDocument, delay);
+            }
+        }
+    }
+
+    /**
+     * Updates the previews depending on a file changed on disk. Files open in an editor are
+     * left to the editor listeners, which follow the update mode.
+     */
+    private handleDependencyChange(previewPaths: string[], changedPath: string): void {
+        const config = vscode.workspace.getConfiguration('quarkdownPreview');
+        if (config.get<string>('updateMode', 'onType') === 'manual' ||
+            vscode.workspace.textDocuments.some(d => d.uri.scheme === 'file' && d.uri.fsPath === changedPath)) {
+            return;
+        }
+
+        for (const previewPath of previewPaths) {
+            const previewDocument = this.previewDocuments.get(previewPath);
+            if (previewDocument) {
+                this.logger.info(`${changedPath} changed, updating the preview of ${previewPath}`);
+                this.schedulePreviewUpdate(previewDocument, config.get<number>('updateDelay', 800));
+            }
+        }
+    }
+
+    /**
+     * Compiles the current editor content of `document` into the preview output directory,
+     * going through a shadow copy of its sources so that unsaved changes are included.
+     */
+    private async compilePreviewSource(document: vscode.TextDocument, tempDir: string): Promise<void> {
+        this.holdTempDirectory(tempDir);
+        try {
+            const shadow = syncShadowCopy(document, this.getPreviewShadowDir(tempDir));
+            const outputDir = this.getPreviewOutputDir(tempDir);
+            const cwd = path.dirname(shadow.filePath);
+            await this.runCompilation(document, ['c', shadow.filePath, '-o', outputDir], this.getPreviewCompileLocation(tempDir, cwd, shadow.sourceRoot));
+            injectPreviewBridge(outputDir);
+        } finally {
+            this.releaseTempDirectory(tempDir);
+        }
+    }
+
+    /**
+     * Runs a compilation of `document`, reporting its errors as diagnostics or clearing
+     * the previous ones on success.
+     */
+    private async runCompilation(
+        document: vscode.TextDocument,
+        args: string[],
+        location: CompileLocation,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
+        try {
+            await this.executeQuarkdownCommand(args, location.cwd, progress, token);
+            this.diagnostics.clear(document);
+        } catch (error) {
+            if (error instanceof QuarkdownCommandError) {
+                this.diagnostics.report(document, error.output, location);
             }
+            throw error;
         }
     }
 
+    private getPreviewCompileLocation(tempDir: string, cwd: string, sourceRoot: string): CompileLocation {
+        return {
+            cwd: cwd,
+            shadowDir: this.getPreviewShadowDir(tempDir),
+            sourceDir: sourceRoot
+        };
+    }
+
+    private getPreviewOutputDir(tempDir: string): string {
+        return path.join(tempDir, 'output');
+    }
+
+    private getPreviewShadowDir(tempDir: string): string {
+        return path.join(tempDir, 'source');
+    }
+
 
 
     public async createProject(): Promise<void> {
@@ -296,29 +1050,159 @@ export class QuarkdownPreviewManager {
             return;
         }
 
-        if (document.isDirty) {
-            const saveResult = await vscode.window.showWarningMessage('File must be saved before compilation. Save now?', { modal: true }, 'Save & Compile', 'Cancel');
-            if (saveResult === 'Save & Compile') {
-                await document.save();
-            } else {
-                return;
-            }
-        }
-
-        const defaultTempDir = this.createTempDirectory(path.basename(filePath, '.qmd'));
+        const defaultOutputDir = path.join(workspaceFolder.uri.fsPath, 'output');
         const folderOptions: vscode.OpenDialogOptions = {
             canSelectFolders: true,
             canSelectFiles: false,
             canSelectMany: false,
             openLabel: 'Open',
-            defaultUri: vscode.Uri.file(defaultTempDir)
+            defaultUri: fs.existsSync(defaultOutputDir) ? vscode.Uri.file(defaultOutputDir) : workspaceFolder.uri
         };
         const folderUri = await vscode.window.showOpenDialog(folderOptions);
         if (!folderUri || folderUri.length === 0) {
             return;
         }
-        const outputDir = folderUri[0].fsPath;
 
+        const profile: CompileProfile = { name: toPdf ? 'PDF' : 'HTML', target: toPdf ? 'pdf' : 'html' };
+        await this.compileToDirectory(document, folderUri[0].fsPath, workspaceFolder.uri.fsPath, profile);
+    }
+
+    /**
+     * Compiles `document` with a compile profile, without any dialog: the output directory
+     * comes from the profile and is emptied first if the profile asks for it. Emptying a
+     * directory with anything but Quarkdown output asks for confirmation.
+     */
+    public async compileWithProfile(profile: CompileProfile, document: vscode.TextDocument, workspaceDir: string): Promise<void> {
+        const outputDir = resolveProfileOutput(profile, workspaceDir);
+        try {
+            if (profile.clean) {
+                if (!isSafeToClean(outputDir, workspaceDir, document.uri.fsPath)) {
+                    vscode.window.showErrorMessage(`Profile "${profile.name}" would clean ${outputDir}, which contains the workspace or the entry file. Nothing was compiled.`);
+                    return;
+                }
+                // Such as a source folder or an absolute path set by mistake
+                if (!containsOnlyOutput(outputDir)) {
+                    const choice = await vscode.window.showWarningMessage(
+                        `Profile "${profile.name}" will delete everything in ${outputDir}, which contains files that are not Quarkdown output.`,
+                        { modal: true },
+                        'Clean and Compile'
+                    );
+                    if (choice !== 'Clean and Compile') {
+                        return;
+                    }
+                }
+                fs.rmSync(outputDir, { recursive: true, force: true });
+                this.logger.info(`Cleaned output directory ${outputDir}`);
+            }
+            fs.mkdirSync(outputDir, { recursive: true });
+        } catch (error) {
+            this.logger.error(`Failed to prepare output directory ${outputDir}:`, error);
+            vscode.window.showErrorMessage(`Unable to prepare output directory ${outputDir}`);
+            return;
+        }
+
+        await this.compileToDirectory(document, outputDir, workspaceDir, profile);
+    }
+
+    /**
+     * Compiles the saved content of the given root documents, a few at a time, into an output
+     * tree mirroring the workspace under `output`. Ends with a summary linking to the failures.
+     */
+    public async compileBatch(filePaths: string[], target: CompileTarget): Promise<void> {
+        const concurrency = vscode.workspace.getConfiguration('quarkdownPreview').get<number>('compileConcurrency', 2);
+        const profile: CompileProfile = { name: target.toUpperCase(), target: target };
+        const failures: { filePath: string; document?: vscode.TextDocument; error: unknown }[] = [];
+        const outputRoots = new Set<string>();
+
+        const outcomes = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Compiling ${filePaths.length} Quarkdown documents`,
+            cancellable: true
+        }, async (progress, token) => {
+            let done = 0;
+            return runBatch(filePaths, concurrency, async filePath => {
+                let document: vscode.TextDocument | undefined;
+                try {
+                    document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+                    if (document.isDirty) {
+                        this.logger.warn(`${filePath} has unsaved changes: compiling the saved file`);
+                    }
+                    const workspaceDir = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath ?? path.dirname(filePath);
+                    const outputRoot = resolveProfileOutput(profile, workspaceDir);
+                    const outputDir = mirrorOutputDirectory(filePath, workspaceDir, outputRoot);
+                    fs.mkdirSync(outputDir, { recursive: true });
+                    outputRoots.add(outputRoot);
+
+                    await this.runCompilation(document, buildProfileArgs(profile, filePath, outputDir), { cwd: workspaceDir }, undefined, token);
+                } catch (error) {
+                    if (!token.isCancellationRequested) {
+                        this.logger.error(`Failed to compile ${filePath}:`, error);
+                        failures.push({ filePath, document, error });
+                    }
+                    throw error;
+                } finally {
+                    done++;
+                    progress.report({
+                        increment: 100 / filePaths.length,
+                        message: `${done}/${filePaths.length} ${vscode.workspace.asRelativePath(filePath)}`
+                    });
+                }
+            }, () => token.isCancellationRequested);
+        });
+
+        const cancelled = outcomes.filter(outcome => outcome.cancelled).length;
+        const succeeded = outcomes.length - cancelled - failures.length;
+        const summary = [
+            `Compiled ${succeeded} of ${outcomes.length} Quarkdown documents`,
+            ...(failures.length > 0 ? [`${failures.length} failed`] : []),
+            ...(cancelled > 0 ? [`${cancelled} cancelled`] : [])
+        ].join(', ');
+        this.logger.info(summary);
+
+        const actions = [...(failures.length > 0 ? ['Show Failures'] : []), ...(outputRoots.size > 0 ? ['Open Output Folder'] : [])];
+        const show = failures.length > 0 ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+        const selection = await show(summary, ...actions);
+        if (selection === 'Open Output Folder') {
+            vscode.env.openExternal(vscode.Uri.file([...outputRoots][0]));
+        } else if (selection === 'Show Failures') {
+            await this.pickCompileFailure(failures);
+        }
+    }
+
+    // Lists the failed documents of a batch and opens the first error of the picked one
+    private async pickCompileFailure(failures: { filePath: string; document?: vscode.TextDocument; error: unknown }[]): Promise<void> {
+        const items = failures.map(failure => {
+            const location = failure.document && this.diagnostics.getFirstError(failure.document);
+            const message = failure.error instanceof QuarkdownCommandError
+                ? parseCompileErrors(failure.error.output)[0]?.message
+                : undefined;
+            const fallback = failure.error instanceof Error ? failure.error.message : String(failure.error);
+            return {
+                label: vscode.workspace.asRelativePath(failure.filePath),
+                description: location ? `${vscode.workspace.asRelativePath(location.uri)}:${location.range.start.line + 1}` : undefined,
+                detail: message ?? fallback.split(/\r?\n/).find(line => line.trim()),
+                location: location ?? new vscode.Location(vscode.Uri.file(failure.filePath), new vscode.Position(0, 0))
+            };
+        });
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select a failed document to open its first error' });
+        if (picked) {
+            await vscode.window.showTextDocument(picked.location.uri, { selection: picked.location.range });
+        }
+    }
+
+    /**
+     * Compiles `document` into `outputDir` under a progress notification and reports the result.
+     * Unsaved changes are compiled from a shadow copy in the cache directory of the document.
+     */
+    private async compileToDirectory(
+        document: vscode.TextDocument,
+        outputDir: string,
+        cwd: string,
+        profile: CompileProfile
+    ): Promise<void> {
+        const filePath = document.uri.fsPath;
+        const toPdf = profile.target === 'pdf';
         const progressTitle = toPdf ? 'Compiling to PDF...' : 'Compiling document...';
 
         await vscode.window.withProgress({
@@ -326,15 +1210,25 @@ export class QuarkdownPreviewManager {
             title: progressTitle,
             cancellable: true
         }, async (progress, token) => {
+            let tempDir: string | undefined;
+            let shadowDir: string | undefined;
             try {
                 progress.report({ increment: 10, message: 'Starting compilation...' });
 
-                const args = ['c', filePath, '-o', outputDir];
-                if (toPdf) {
-                    args.push('--pdf');
+                // Unsaved changes are compiled from a shadow copy instead of forcing a save
+                if (document.isDirty) {
+                    tempDir = this.activeTempDirs.get(filePath) ?? this.acquireTempDirectory(filePath);
+                    this.holdTempDirectory(tempDir);
+                    // Separate from the preview shadow copy and from other compiles of the document
+                    shadowDir = fs.mkdtempSync(path.join(tempDir, 'compile-'));
                 }
+                const shadow = shadowDir ? syncShadowCopy(document, shadowDir) : undefined;
+                const args = buildProfileArgs(profile, shadow?.filePath ?? filePath, outputDir);
 
-                await this.executeQuarkdownCommand(args, workspaceFolder.uri.fsPath, progress, token);
+                const location: CompileLocation = shadow
+                    ? { cwd: cwd, shadowDir: shadowDir, sourceDir: shadow.sourceRoot }
+                    : { cwd: cwd };
+                await this.runCompilation(document, args, location, progress, token);
 
                 progress.report({ increment: 80, message: 'Searching for output files...' });
                 await new Promise(resolve => setTimeout(resolve, 500));
@@ -347,6 +1241,10 @@ export class QuarkdownPreviewManager {
                 this.showCompilationResult(foundFiles, outputDir, toPdf);
             } catch (error) {
                 this.handlePreviewError(error, filePath);
+            } finally {
+                if (tempDir) {
+                    this.releaseTempDirectory(tempDir, shadowDir);
+                }
             }
         });
     }
@@ -381,7 +1279,7 @@ export class QuarkdownPreviewManager {
                 });
             }
         } catch (e) {
-            console.log('Error checking output files:', e);
+            this.logger.error('Error checking output files:', e);
         }
         return foundFiles;
     }
@@ -429,40 +1327,79 @@ export class QuarkdownPreviewManager {
         }
     }
 
-    private createTempDirectory(baseName: string): string {
+    private getTempBaseDirectory(): string {
         const config = vscode.workspace.getConfiguration('quarkdownPreview');
-        const customOutputDir = config.get<string>('outputDirectory', '');
-
-        const tempBase = customOutputDir || os.tmpdir();
-        const tempDirName = `quarkdown-preview-${baseName}-${Date.now()}`;
-        const tempDir = path.join(tempBase, tempDirName);
+        return config.get<string>('outputDirectory', '') || os.tmpdir();
+    }
 
+    /**
+     * Creates or reuses the cache directory of `filePath`, which holds its preview shadow copy
+     * and output. It is removed when the preview closes; `cleanPreviewCache` removes leftovers.
+     */
+    private acquireTempDirectory(filePath: string): string {
         try {
-            fs.mkdirSync(tempDir, { recursive: true });
-            console.log(`Created output directory: ${tempDir}`);
+            const tempDir = acquireCacheDirectory(this.getTempBaseDirectory(), filePath);
+            this.logger.debug(`Using cache directory: ${tempDir}`);
+            return tempDir;
         } catch (error) {
-            console.error('Failed to create output directory:', error);
-            throw new Error(`Unable to create output directory: ${error}`);
+            this.logger.error('Failed to create cache directory:', error);
+            throw new Error(`Unable to create cache directory: ${error}`);
+        }
+    }
+
+    /**
+     * Keeps `tempDir` while a compile runs in it, even if its preview closes meanwhile.
+     */
+    private holdTempDirectory(tempDir: string): void {
+        this.compilingTempDirs.set(tempDir, (this.compilingTempDirs.get(tempDir) ?? 0) + 1);
+    }
+
+    /**
+     * Ends a compile held by `holdTempDirectory`: removes its own shadow directory, if any,
+     * and the cache directory unless a preview or another compile still uses it.
+     */
+    private releaseTempDirectory(tempDir: string, shadowDir?: string): void {
+        const compiles = (this.compilingTempDirs.get(tempDir) ?? 1) - 1;
+        if (compiles > 0) {
+            this.compilingTempDirs.set(tempDir, compiles);
+        } else {
+            this.compilingTempDirs.delete(tempDir);
         }
+        if (this.isTempDirectoryInUse(tempDir)) {
+            if (shadowDir) {
+                this.removeTempDirectory(shadowDir);
+            }
+        } else {
+            this.removeTempDirectory(tempDir);
+        }
+    }
 
-        return tempDir;
+    private isTempDirectoryInUse(tempDir: string): boolean {
+        return this.compilingTempDirs.has(tempDir) || [...this.activeTempDirs.values()].includes(tempDir);
     }
 
-    private async getAvailablePort(): Promise<number> {
-        return new Promise((resolve, reject) => {
-            const server = net.createServer();
-            server.listen(0, () => {
-                const port = (server.address() as net.AddressInfo)?.port;
-                server.close(() => {
-                    if (port) {
-                        resolve(port);
-                    } else {
-                        reject(new Error('Unable to get available port'));
-                    }
-                });
-            });
-            server.on('error', reject);
-        });
+    private removeTempDirectory(tempDir: string): void {
+        try {
+            removeCacheDirectory(tempDir);
+            this.logger.debug(`Removed cache directory: ${tempDir}`);
+        } catch (error) {
+            this.logger.error(`Failed to remove cache directory ${tempDir}:`, error);
+        }
+    }
+
+    /**
+     * Removes the cache directories left by previews that are no longer open, in this window
+     * or in windows that have exited, such as after a crash.
+     *
+     * @returns the number of removed directories
+     */
+    public cleanPreviewCache(): number {
+        const inUse = new Set([...this.activeTempDirs.values(), ...this.compilingTempDirs.keys()]);
+        const removed = sweepCacheDirectories(this.getTempBaseDirectory(), inUse);
+        for (const dir of removed) {
+            this.logger.info(`Removed orphaned cache directory: ${dir}`);
+        }
+        return removed.length;
     }
 
     private async executeQuarkdownCommand(
@@ -475,8 +1412,9 @@ export class QuarkdownPreviewManager {
             const config = vscode.workspace.getConfiguration('quarkdownPreview');
             const quarkdownPath = config.get<string>('quarkdownPath', 'quarkdown');
 
-            console.log(`Executing command: ${quarkdownPath} ${args.join(' ')}`);
-            console.log(`Working directory: ${cwd || process.cwd()}`);
+            const workingDirectory = cwd || process.cwd();
+            const startTime = Date.now();
+            this.logger.logInvocationStart(quarkdownPath, args, workingDirectory);
 
             const childProcess = spawn(quarkdownPath, args, {
                 cwd: cwd,
@@ -484,18 +1422,20 @@ export class QuarkdownPreviewManager {
             });
 
             token?.onCancellationRequested(() => {
-                console.log('User cancelled operation');
+                this.logger.info('User cancelled operation');
                 childProcess.kill('SIGTERM');
             });
 
             let output = '';
             let errorOutput = '';
+            let combinedOutput = '';
             let progressReported = 10;
 
             childProcess.stdout?.on('data', (data: Buffer) => {
                 const chunk = data.toString();
                 output += chunk;
-                console.log(`Quarkdown stdout: ${chunk.trim()}`);
+                combinedOutput += chunk;
+                this.logger.debug(`Quarkdown stdout: ${chunk.trim()}`);
 
                 if (progressReported < 70) {
                     progressReported += 5;
@@ -506,11 +1446,19 @@ export class QuarkdownPreviewManager {
             childProcess.stderr?.on('data', (data: Buffer) => {
                 const chunk = data.toString();
                 errorOutput += chunk;
-                console.log(`Quarkdown stderr: ${chunk.trim()}`);
+                combinedOutput += chunk;
+                this.logger.debug(`Quarkdown stderr: ${chunk.trim()}`);
             });
 
             childProcess.on('close', (code: number | null) => {
-                console.log(`Quarkdown command completed with exit code: ${code}`);
+                this.logger.logInvocation({
+                    command: quarkdownPath,
+                    args: args,
+                    cwd: workingDirectory,
+                    durationMs: Date.now() - startTime,
+                    exitCode: code,
+                    output: combinedOutput
+                });
                 if (code === 0) {
                     resolve();
                 } else {
@@ -522,12 +1470,12 @@ export class QuarkdownPreviewManager {
                     } else if (errorOutput.includes('syntax error') || errorOutput.includes('parse error')) {
                         errorMessage = `Syntax error. Please check Quarkdown file syntax.\nDetails: ${errorOutput}`;
                     }
-                    reject(new Error(errorMessage));
+                    reject(new QuarkdownCommandError(errorMessage, `${output}\n${errorOutput}`));
                 }
             });
 
             childProcess.on('error', (error: Error) => {
-                console.log(`Failed to start Quarkdown process: ${error.message}`);
+                this.logger.error('Failed to start Quarkdown process:', error);
                 reject(error);
             });
 
@@ -607,22 +1555,20 @@ export class QuarkdownPreviewManager {
     }
 
     private getSyntaxSuggestion(errorMessage: string, functionName: string): string {
-        switch (functionName) {
-            case 'row':
-                if (errorMessage.includes('No such element')) {
-                    return 'Please check the alignment parameter for .row function. Valid values include: start, center, end, spacebetween, spacearound, spaceevenly';
-                }
-                return 'Please check the parameter format for .row function. Correct format: .row alignment:{center} gap:{10px}';
-
-            case 'col':
-                return 'Please check the parameter format for .col function. Parameters are the same as .row';
-
-            case 'container':
-                return 'Please check the parameter format for .container function. Example: .container width:{80%}';
+        const catalogFunction = findStdlibFunction(functionName === 'col' ? 'column' : functionName);
+        if (!catalogFunction) {
+            return `Please check if the syntax for .${functionName} function is correct`;
+        }
 
-            default:
-                return `Please check if the syntax for .${functionName} function is correct`;
+        const enumParameters = catalogFunction.parameters.filter(p => p.values);
+        if (errorMessage.includes('No such element') && enumParameters.length > 0) {
+            const hints = enumParameters.map(p => `${p.name}: ${p.values!.join(', ')}`);
+            return `Please check the parameters of .${catalogFunction.name} function. Valid values include ${hints.join('; ')}`;
         }
+        if (catalogFunction.example) {
+            return `Please check the parameter format for .${catalogFunction.name} function. Example: ${catalogFunction.example.split('\n')[0]}`;
+        }
+        return `Please check the parameter format for .${catalogFunction.name} function`;
     }
 
     private extractFunctionName(errorMessage: string): string {
@@ -645,13 +1591,13 @@ export class QuarkdownPreviewManager {
     }
 
     private showDetailedError(errorMessage: string, filePath: string): void {
-        const outputChannel = vscode.window.createOutputChannel('Quarkdown Preview');
-        outputChannel.appendLine('='.repeat(50));
-        outputChannel.appendLine(`Error time: ${new Date().toLocaleString()}`);
-        outputChannel.appendLine(`File path: ${filePath}`);
-        outputChannel.appendLine(`Error message: ${errorMessage}`);
-        outputChannel.appendLine('='.repeat(50));
-        outputChannel.show();
+        this.logger.error([
+            '='.repeat(50),
+            `File path: ${filePath}`,
+            `Error message: ${errorMessage}`,
+            '='.repeat(50)
+        ].join('\n'));
+        this.logger.show();
     }
 
     private checkQuarkdownInstallation(): void {
@@ -675,26 +1621,112 @@ export class QuarkdownPreviewManager {
     }
 
     public stopProcess(filePath: string): void {
-        const process = this.runningProcesses.get(filePath);
-        if (process) {
-            process.kill('SIGTERM');
-            this.runningProcesses.delete(filePath);
+        this.previewGenerations.delete(filePath);
+        clearTimeout(this.pendingUpdates.get(filePath));
+        this.pendingUpdates.delete(filePath);
+        this.queuedRecompiles.delete(filePath);
+        this.watchModePreviews.delete(filePath);
+        this.watchOutputs.delete(filePath);
+        this.watchShadowFiles.delete(filePath);
+        this.outputWatchers.get(filePath)?.close();
+        this.outputWatchers.delete(filePath);
+        this.dependencies.untrack(filePath);
+
+        this.runningProcesses.get(filePath)?.kill('SIGTERM');
+        this.runningProcesses.delete(filePath);
+
+        const prefix = this.servedPrefixes.get(filePath);
+        if (prefix) {
+            this.previewServer.unmount(prefix);
+            this.servedPrefixes.delete(filePath);
+            if (this.previewServer.mountCount === 0) {
+                this.previewServer.close();
+            }
+        }
+        const tempDir = this.activeTempDirs.get(filePath);
+        if (tempDir) {
+            this.activeTempDirs.delete(filePath);
+            // Otherwise removed once the compiles using it finish
+            if (!this.compilingTempDirs.has(tempDir)) {
+                this.removeTempDirectory(tempDir);
+            }
+        }
+        this.previewUrls.delete(filePath);
+        if (this.serveDirs.delete(filePath)) {
+            this.previewsChanged.fire();
+        }
+    }
+
+    /**
+     * Closes the preview of `filePath`, which stops its watch process and unmounts it from the server.
+     */
+    public stopPreview(filePath: string): void {
+        const panel = this.webviewPanels.get(filePath);
+        if (panel) {
+            panel.dispose();
+        } else {
+            this.stopProcess(filePath);
         }
-        this.activePorts.delete(filePath);
-        this.activeTempDirs.delete(filePath);
+    }
+
+    public getRunningPreviews(): RunningPreview[] {
+        const previews: RunningPreview[] = [];
+        for (const filePath of this.serveDirs.keys()) {
+            const prefix = this.servedPrefixes.get(filePath);
+            const tempDir = this.activeTempDirs.get(filePath);
+            if (tempDir) {
+                previews.push({
+                    filePath,
+                    url: prefix && this.previewServer.getUrl(prefix),
+                    tempDir,
+                    outputDir: this.getPreviewOutputDir(tempDir),
+                    watchMode: this.watchModePreviews.has(filePath)
+                });
+            }
+        }
+        return previews;
     }
 
     public stopAllProcesses(): void {
-        for (const [filePath, process] of this.runningProcesses) {
+        for (const timer of this.pendingUpdates.values()) {
+            clearTimeout(timer);
+        }
+        this.pendingUpdates.clear();
+        this.queuedRecompiles.clear();
+        this.watchModePreviews.clear();
+        this.watchOutputs.clear();
+        this.watchShadowFiles.clear();
+        for (const watcher of this.outputWatchers.values()) {
+            watcher.close();
+        }
+        this.outputWatchers.clear();
+
+        for (const process of this.runningProcesses.values()) {
             process.kill('SIGTERM');
         }
+        for (const filePath of this.serveDirs.keys()) {
+            this.dependencies.untrack(filePath);
+        }
         this.runningProcesses.clear();
-        this.activePorts.clear();
+        this.previewGenerations.clear();
+        this.previewServer.close();
+        this.servedPrefixes.clear();
+        for (const tempDir of this.activeTempDirs.values()) {
+            if (!this.compilingTempDirs.has(tempDir)) {
+                this.removeTempDirectory(tempDir);
+            }
+        }
         this.activeTempDirs.clear();
+        this.previewUrls.clear();
+        this.serveDirs.clear();
+        this.previewsChanged.fire();
     }
 
     public dispose(): void {
         this.stopAllProcesses();
+        this.diagnostics.dispose();
+        this.dependencies.dispose();
+        this.previewsChanged.dispose();
 
         for (const panel of this.webviewPanels.values()) {
             panel.dispose();
@@ -723,13 +1755,16 @@ export class QuarkdownPreviewManager {
                 }
             }
         } catch (e) {
-            console.log(`Error reading directory ${dir}:`, e);
+            this.logger.error(`Error reading directory ${dir}:`, e);
         }
 
         return results;
     }
 
-    private getWebviewContent(): string {
+    /**
+     * @param frameSources origins the preview iframe may load, see `previewFrameSources`
+     */
+    private getWebviewContent(frameSources: string): string {
         return `
             <!DOCTYPE html>
             <html lang="en">
@@ -737,7 +1772,7 @@ export class QuarkdownPreviewManager {
                 <meta charset="UTF-8">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <meta http-equiv="Content-Security-Policy" content="default-src 'none';
-                    frame-src http://localhost:*;
+                    frame-src ${frameSources};
                     script-src 'vscode-resource:' 'unsafe-inline';
                     style-src 'unsafe-inline';
                     img-src data: http: https:;">
@@ -841,6 +1876,56 @@ export class QuarkdownPreviewManager {
                     .refresh-button.refreshing .refresh-icon {
                         animation: spin 1s linear infinite;
                     }
+                    .toolbar {
+                        display: none;
+                        align-items: center;
+                        gap: 6px;
+                        height: 36px;
+                        box-sizing: border-box;
+                        padding: 0 70px 0 8px;
+                        font-size: 12px;
+                        border-bottom: 1px solid var(--vscode-panel-border, rgba(128, 128, 128, 0.35));
+                    }
+                    .toolbar button {
+                        padding: 3px 8px;
+                        background: var(--vscode-button-secondaryBackground, transparent);
+                        color: var(--vscode-button-secondaryForeground, var(--vscode-editor-foreground));
+                        border: none;
+                        border-radius: 4px;
+                        cursor: pointer;
+                        font-size: 12px;
+                    }
+                    .toolbar button:hover {
+                        background: var(--vscode-button-secondaryHoverBackground, var(--vscode-toolbar-hoverBackground));
+                    }
+                    .toolbar button.active {
+                        background: var(--vscode-button-background);
+                        color: var(--vscode-button-foreground);
+                    }
+                    .toolbar input {
+                        width: 48px;
+                        padding: 2px 4px;
+                        background: var(--vscode-input-background);
+                        color: var(--vscode-input-foreground);
+                        border: 1px solid var(--vscode-input-border, transparent);
+                        border-radius: 2px;
+                    }
+                    .toolbar .separator {
+                        width: 1px;
+                        height: 18px;
+                        background: var(--vscode-panel-border, rgba(128, 128, 128, 0.35));
+                    }
+                    /* Paged documents: the toolbar takes the top of the panel */
+                    body.paged .toolbar {
+                        display: flex;
+                    }
+                    body.paged iframe {
+                        height: calc(100vh - 36px);
+                    }
+                    body.paged .refresh-button {
+                        top: 4px;
+                        padding: 4px 12px;
+                    }
                 </style>
             </head>
             <body>
@@ -868,6 +1953,20 @@ export class QuarkdownPreviewManager {
                         Retry
                     </button>
                 </div>
+                <div class="toolbar" id="toolbar">
+                    <button id="thumbnailsButton" title="Toggle page thumbnails">☰</button>
+                    <span class="separator"></span>
+                    <button id="previousPageButton" title="Previous page">◀</button>
+                    <input id="pageInput" type="number" min="1" value="1" title="Go to page">
+                    <span id="pageCount">/ 1</span>
+                    <button id="nextPageButton" title="Next page">▶</button>
+                    <span class="separator"></span>
+                    <button id="zoomOutButton" title="Zoom out">−</button>
+                    <span id="zoomLevel">100%</span>
+                    <button id="zoomInButton" title="Zoom in">+</button>
+                    <button id="fitWidthButton" title="Fit the page width to the panel">Fit Width</button>
+                    <button id="fitPageButton" title="Fit the whole page in the panel">Fit Page</button>
+                </div>
                 <iframe id="preview" style="display: none;"></iframe>
 
                 <script>
@@ -880,6 +1979,81 @@ export class QuarkdownPreviewManager {
                     const refreshButton = document.getElementById('refreshButton');
                     const refreshText = document.querySelector('.refresh-text');
 
+                    // Last scroll offset or slide reported by the bridge script injected into the preview.
+                    // Kept in the webview state so that it survives the panel being hidden and shown again.
+                    let previewPosition = (vscode.getState() || {}).position;
+                    let bridgeConnected = false;
+
+                    // Zoom and thumbnails of paged documents, applied again after each reload
+                    let pagedView = (vscode.getState() || {}).pagedView || { zoomMode: 1, thumbnails: false };
+                    const pageInput = document.getElementById('pageInput');
+                    const pageCount = document.getElementById('pageCount');
+                    const zoomLevel = document.getElementById('zoomLevel');
+                    const thumbnailsButton = document.getElementById('thumbnailsButton');
+                    const fitWidthButton = document.getElementById('fitWidthButton');
+                    const fitPageButton = document.getElementById('fitPageButton');
+                    let currentPage = 1;
+
+                    function savePagedView() {
+                        vscode.setState({ ...(vscode.getState() || {}), pagedView: pagedView });
+                        thumbnailsButton.classList.toggle('active', pagedView.thumbnails);
+                        fitWidthButton.classList.toggle('active', pagedView.zoomMode === 'fitWidth');
+                        fitPageButton.classList.toggle('active', pagedView.zoomMode === 'fitPage');
+                    }
+
+                    function showPages(message) {
+                        document.body.classList.add('paged');
+                        currentPage = message.current;
+                        pageCount.textContent = '/ ' + message.count;
+                        pageInput.max = message.count;
+                        if (document.activeElement !== pageInput) {
+                            pageInput.value = message.current;
+                        }
+                        zoomLevel.textContent = Math.round(message.zoom * 100) + '%';
+                        pagedView.zoomMode = message.zoomMode;
+                        savePagedView();
+                    }
+
+                    function postToPreview(message) {
+                        if (iframe.contentWindow) {
+                            message.target = 'quarkdown-preview-bridge';
+                            iframe.contentWindow.postMessage(message, '*');
+                        }
+                    }
+
+                    function handlePreviewMessage(message) {
+                        if (!message || message.source !== 'quarkdown-preview') {
+                            return;
+                        }
+                        switch (message.type) {
+                            case 'ready':
+                                bridgeConnected = true;
+                                if (previewPosition) {
+                                    postToPreview({ type: 'restore', position: previewPosition });
+                                }
+                                if (pagedView.zoomMode !== 1) {
+                                    postToPreview({ type: 'zoom', mode: pagedView.zoomMode });
+                                }
+                                if (pagedView.thumbnails) {
+                                    postToPreview({ type: 'thumbnails', visible: true });
+                                }
+                                break;
+                            case 'pages':
+                                showPages(message);
+                                break;
+                            case 'position':
+                                previewPosition = message.position;
+                                vscode.setState({ ...(vscode.getState() || {}), position: previewPosition });
+                                if (previewPosition && previewPosition.slide) {
+                                    vscode.postMessage({ command: 'slideChanged', slide: previewPosition.slide });
+                                }
+                                break;
+                            case 'revealSource':
+                                vscode.postMessage({ command: 'revealSource', line: message.line, heading: message.heading });
+                                break;
+                        }
+                    }
+
                     // 刷新按钮状态管理
                     function setRefreshButtonState(isRefreshing) {
                         if (refreshButton) {
@@ -900,6 +2074,10 @@ export class QuarkdownPreviewManager {
                     }
 
                     window.addEventListener('message', event => {
+                        if (event.source === iframe.contentWindow) {
+                            handlePreviewMessage(event.data);
+                            return;
+                        }
                         const message = event.data;
                         switch (message.command) {
                             case 'updateStatus':
@@ -912,6 +2090,7 @@ export class QuarkdownPreviewManager {
                                 }
                                 break;
                             case 'loadUrl':
+                                document.body.classList.remove('paged');
                                 loading.style.display = 'none';
                                 error.style.display = 'none';
                                 iframe.style.display = 'block';
@@ -930,7 +2109,11 @@ export class QuarkdownPreviewManager {
                                 break;
                             case 'reload':
                                 const iframeSrc = iframe.src;
-                                if (iframeSrc && iframeSrc !== 'about:blank') {
+                                if (bridgeConnected) {
+                                    // Reload in place: the bridge restores the position once the page is ready
+                                    bridgeConnected = false;
+                                    postToPreview({ type: 'reload' });
+                                } else if (iframeSrc && iframeSrc !== 'about:blank') {
                                     iframe.src = 'about:blank';
                                     setTimeout(() => { iframe.src = iframeSrc; }, 100);
                                 }
@@ -942,6 +2125,28 @@ export class QuarkdownPreviewManager {
                             case 'refreshComplete':
                                 setRefreshButtonState(false);
                                 break;
+                            case 'scrollToSource':
+                                postToPreview({ type: 'scrollToSource', line: message.line, heading: message.heading });
+                                break;
+                            case 'highlightSource':
+                                postToPreview({ type: 'highlightSource', line: message.line, heading: message.heading });
+                                break;
+                            case 'setDocument':
+                                const state = vscode.getState() || {};
+                                if (state.documentUri && state.documentUri !== message.uri) {
+                                    // The dynamic preview switched documents: start from the top
+                                    previewPosition = undefined;
+                                }
+                                vscode.setState({ ...state, documentUri: message.uri, position: previewPosition });
+                                break;
+                            case 'setLocked':
+                                vscode.setState({ ...(vscode.getState() || {}), locked: message.locked });
+                                break;
+                            case 'goToSlide':
+                                previewPosition = { slide: message.slide };
+                                vscode.setState({ ...(vscode.getState() || {}), position: previewPosition });
+                                postToPreview({ type: 'restore', position: previewPosition });
+                                break;
                         }
                     });
 
@@ -955,6 +2160,31 @@ export class QuarkdownPreviewManager {
                         });
                     }
 
+                    // Paged document toolbar
+                    function goToPage(page) {
+                        const count = parseInt(pageInput.max, 10) || 1;
+                        postToPreview({ type: 'goToPage', page: Math.min(Math.max(1, page), count) });
+                    }
+                    document.getElementById('previousPageButton').addEventListener('click', () => goToPage(currentPage - 1));
+                    document.getElementById('nextPageButton').addEventListener('click', () => goToPage(currentPage + 1));
+                    pageInput.addEventListener('change', () => goToPage(parseInt(pageInput.value, 10) || 1));
+                    pageInput.addEventListener('keydown', event => {
+                        if (event.key === 'Enter') {
+                            goToPage(parseInt(pageInput.value, 10) || 1);
+                            pageInput.blur();
+                        }
+                    });
+                    document.getElementById('zoomInButton').addEventListener('click', () => postToPreview({ type: 'zoom', mode: 'in' }));
+                    document.getElementById('zoomOutButton').addEventListener('click', () => postToPreview({ type: 'zoom', mode: 'out' }));
+                    fitWidthButton.addEventListener('click', () => postToPreview({ type: 'zoom', mode: 'fitWidth' }));
+                    fitPageButton.addEventListener('click', () => postToPreview({ type: 'zoom', mode: 'fitPage' }));
+                    thumbnailsButton.addEventListener('click', () => {
+                        pagedView.thumbnails = !pagedView.thumbnails;
+                        savePagedView();
+                        postToPreview({ type: 'thumbnails', visible: pagedView.thumbnails });
+                    });
+                    savePagedView();
+
                     // Handle retry button
                     const retryButton = document.querySelector('.retry-button');
                     if (retryButton) {
@@ -973,10 +2203,13 @@ export function validateQuarkdownInstallation(): Promise<boolean> {
     return new Promise((resolve) => {
         const config = vscode.workspace.getConfiguration('quarkdownPreview');
         const quarkdownPath = config.get<string>('quarkdownPath', 'quarkdown');
+        const logger = QuarkdownLogger.getInstance();
 
-        console.log(`Starting Quarkdown installation detection: ${quarkdownPath}`);
+        logger.info(`Starting Quarkdown installation detection: ${quarkdownPath}`);
 
-        const process = spawn(quarkdownPath, ['--help'], {
+        const startTime = Date.now();
+        logger.logInvocationStart(quarkdownPath, ['--help'], process.cwd());
+        const detectionProcess = spawn(quarkdownPath, ['--help'], {
             stdio: 'pipe',
             timeout: 15000,
             shell: true
@@ -991,23 +2224,23 @@ export function validateQuarkdownInstallation(): Promise<boolean> {
                 hasResolved = true;
                 const status = result ? 'Installed' : 'Not installed';
                 const message = reason ? `${status} (${reason})` : status;
-                console.log(`Quarkdown detection result: ${message}`);
+                logger.info(`Quarkdown detection result: ${message}`);
 
                 if (!result) {
-                    console.log('Detection details:');
-                    console.log(`- Configured path: ${quarkdownPath}`);
-                    console.log(`- stdout output: ${stdoutData || '(none)'}`);
-                    console.log(`- stderr output: ${stderrData || '(none)'}`);
+                    logger.debug('Detection details:');
+                    logger.debug(`- Configured path: ${quarkdownPath}`);
+                    logger.debug(`- stdout output: ${stdoutData || '(none)'}`);
+                    logger.debug(`- stderr output: ${stderrData || '(none)'}`);
                 }
 
                 resolve(result);
             }
         };
 
-        process.stdout?.on('data', (data) => {
+        detectionProcess.stdout?.on('data', (data) => {
             const output = data.toString();
             stdoutData += output;
-            console.log(`Quarkdown stdout: ${output.trim()}`);
+            logger.debug(`Quarkdown stdout: ${output.trim()}`);
 
             const lowercaseOutput = output.toLowerCase();
             if (lowercaseOutput.includes('usage: quarkdown') ||
@@ -1017,14 +2250,22 @@ export function validateQuarkdownInstallation(): Promise<boolean> {
             }
         });
 
-        process.stderr?.on('data', (data) => {
+        detectionProcess.stderr?.on('data', (data) => {
             const error = data.toString();
             stderrData += error;
-            console.log(`Quarkdown stderr: ${error.trim()}`);
+            logger.debug(`Quarkdown stderr: ${error.trim()}`);
         });
 
-        process.on('close', (code, signal) => {
-            console.log(`Quarkdown detection process exited - code: ${code}, signal: ${signal}`);
+        detectionProcess.on('close', (code, signal) => {
+            logger.debug(`Quarkdown detection process exited - code: ${code}, signal: ${signal}`);
+            logger.logInvocation({
+                command: quarkdownPath,
+                args: ['--help'],
+                cwd: process.cwd(),
+                durationMs: Date.now() - startTime,
+                exitCode: code,
+                output: stdoutData + stderrData
+            });
 
             if (code === 0) {
                 if (stdoutData.includes('Usage: quarkdown') || stdoutData.includes('Commands:')) {
@@ -1043,19 +2284,19 @@ export function validateQuarkdownInstallation(): Promise<boolean> {
             }
         });
 
-        process.on('error', (error) => {
-            console.log(`Quarkdown detection process error: ${error.message}`);
+        detectionProcess.on('error', (error) => {
+            logger.debug(`Quarkdown detection process error: ${error.message}`);
 
             let errorReason = 'Unknown error';
             if (error.message.includes('ENOENT')) {
                 errorReason = 'Executable file not found';
-                console.log(`Suggested checks:
+                logger.debug(`Suggested checks:
 1. Is the file path correct: ${quarkdownPath}
 2. Does the file exist
 3. Does it have execution permissions`);
             } else if (error.message.includes('EACCES')) {
                 errorReason = 'Insufficient permissions';
-                console.log('Suggested to check file execution permissions');
+                logger.debug('Suggested to check file execution permissions');
             } else if (error.message.includes('EMFILE') || error.message.includes('ENFILE')) {
                 errorReason = 'System resource limit';
             }
@@ -1063,23 +2304,23 @@ export function validateQuarkdownInstallation(): Promise<boolean> {
             resolveOnce(false, errorReason);
         });
 
-        process.on('spawn', () => {
-            console.log('Quarkdown detection process started');
+        detectionProcess.on('spawn', () => {
+            logger.debug('Quarkdown detection process started');
         });
 
         setTimeout(() => {
             if (!hasResolved) {
-                console.log('Quarkdown detection timeout, forcing process termination');
+                logger.debug('Quarkdown detection timeout, forcing process termination');
                 try {
-                    process.kill('SIGTERM');
+                    detectionProcess.kill('SIGTERM');
                     setTimeout(() => {
-                        if (!process.killed) {
-                            console.log('Force killing process');
-                            process.kill('SIGKILL');
+                        if (!detectionProcess.killed) {
+                            logger.debug('Force killing process');
+                            detectionProcess.kill('SIGKILL');
                         }
                     }, 2000);
                 } catch (e) {
-                    console.log('Error occurred while terminating process:', e);
+                    logger.error('Error occurred while terminating process:', e);
                 }
                 resolveOnce(false, 'Detection timeout');
             }
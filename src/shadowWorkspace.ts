@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { QuarkdownLogger } from './logger';
+import { isQuarkdownDocument, isQuarkdownFile } from './language';
+import { SourceReader } from './includes';
+import { findDependencies } from './dependencies';
+
+export interface ShadowCopy {
+    /** Shadow copy of the document */
+    filePath: string;
+    /** Directory mirrored by the shadow directory: shadow paths are relative to it */
+    sourceRoot: string;
+}
+
+/**
+ * Mirrors `document` and the files it depends on into `shadowDir` so that it can be
+ * compiled without saving. Open Quarkdown documents are written from their (possibly dirty)
+ * editor buffers. The mirror starts at the workspace folder of `document`, so that
+ * includes and assets above the document's own directory are available as well.
+ */
+export function syncShadowCopy(document: vscode.TextDocument, shadowDir: string): ShadowCopy {
+    const openBuffers = new Map<string, string>();
+    for (const openDocument of vscode.workspace.textDocuments) {
+        if (openDocument.uri.scheme === 'file' && isQuarkdownDocument(openDocument)) {
+            openBuffers.set(path.resolve(openDocument.uri.fsPath), openDocument.getText());
+        }
+    }
+    const read: SourceReader = (filePath: string) => {
+        const buffer = openBuffers.get(path.resolve(filePath));
+        if (buffer !== undefined) {
+            return buffer;
+        }
+        try {
+            return fs.readFileSync(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+    };
+
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    return mirrorSources(document.uri.fsPath, folder?.uri.fsPath ?? path.dirname(document.uri.fsPath), shadowDir, read);
+}
+
+/**
+ * Writes `filePath` and what its include and dependency graph reaches into `shadowDir`,
+ * at their paths relative to `sourceRoot`, or to a common ancestor when a dependency lies
+ * outside of it. Quarkdown sources come from `read`, other files are copied only when they
+ * changed on disk, and shadow files that are no longer part of the graph are deleted.
+ */
+export function mirrorSources(filePath: string, sourceRoot: string, shadowDir: string, read: SourceReader): ShadowCopy {
+    const rootFile = path.resolve(filePath);
+    const sources = [rootFile, ...findDependencies(rootFile, read, isFile)];
+    let root = path.resolve(sourceRoot);
+    for (const source of sources) {
+        root = commonAncestor(root, path.dirname(source));
+    }
+
+    const mirrored = new Set<string>();
+    for (const source of sources) {
+        const targetPath = path.join(shadowDir, path.relative(root, source));
+        try {
+            fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+            if (isQuarkdownFile(source)) {
+                // Compare contents: a discarded buffer leaves an older file on disk
+                const text = read(source);
+                if (text === undefined) {
+                    continue;
+                }
+                writeIfChanged(targetPath, text);
+            } else {
+                copyIfChanged(source, targetPath);
+            }
+            mirrored.add(path.resolve(targetPath));
+        } catch (e) {
+            QuarkdownLogger.getInstance().error(`Error copying ${source} to shadow copy:`, e);
+        }
+    }
+    removeStaleFiles(shadowDir, mirrored);
+
+    return { filePath: path.join(shadowDir, path.relative(root, rootFile)), sourceRoot: root };
+}
+
+function commonAncestor(dir: string, other: string): string {
+    let ancestor = dir;
+    for (;;) {
+        const relative = path.relative(ancestor, other);
+        if (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative)) {
+            return ancestor;
+        }
+        const parent = path.dirname(ancestor);
+        if (parent === ancestor) {
+            return ancestor;
+        }
+        ancestor = parent;
+    }
+}
+
+function isFile(filePath: string): boolean {
+    try {
+        return fs.statSync(filePath).isFile();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Deletes the files under `dir` missing from `kept`, and the directories left empty.
+ *
+ * @returns whether `dir` is empty afterwards
+ */
+function removeStaleFiles(dir: string, kept: Set<string>): boolean {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+        return false;
+    }
+
+    let remaining = entries.length;
+    for (const entry of entries) {
+        const entryPath = path.resolve(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (removeStaleFiles(entryPath, kept)) {
+                fs.rmdirSync(entryPath);
+                remaining--;
+            }
+        } else if (!kept.has(entryPath)) {
+            fs.rmSync(entryPath, { force: true });
+            remaining--;
+        }
+    }
+    return remaining === 0;
+}
+
+function writeIfChanged(targetPath: string, content: string): void {
+    try {
+        if (fs.readFileSync(targetPath, 'utf8') === content) {
+            return;
+        }
+    } catch {
+        // Target does not exist yet
+    }
+    fs.writeFileSync(targetPath, content, 'utf8');
+}
+
+function copyIfChanged(sourcePath: string, targetPath: string): void {
+    const sourceStat = fs.statSync(sourcePath);
+    const targetStat = fs.existsSync(targetPath) ? fs.statSync(targetPath) : undefined;
+    if (targetStat && targetStat.size === sourceStat.size && targetStat.mtimeMs >= sourceStat.mtimeMs) {
+        return;
+    }
+    fs.copyFileSync(sourcePath, targetPath);
+}
@@ -0,0 +1,291 @@
+export interface FunctionDefinition {
+    name: string;
+    /** Position of the name inside `.function {name}` */
+    line: number;
+    character: number;
+    parameters: string[];
+}
+
+export interface VariableDefinition {
+    name: string;
+    line: number;
+    character: number;
+    /** Inline value, if the variable is assigned on the same line */
+    value?: string;
+}
+
+export interface IncludeReference {
+    /** Path as written in the source */
+    path: string;
+    line: number;
+    character: number;
+}
+
+export interface CallReference {
+    name: string;
+    /** Position of the name, after the leading `.` or `::` */
+    line: number;
+    character: number;
+}
+
+export interface ParsedSource {
+    functions: FunctionDefinition[];
+    variables: VariableDefinition[];
+    includes: IncludeReference[];
+    /** Function and variable calls, except references to the parameters of an enclosing `.function` */
+    calls: CallReference[];
+}
+
+/**
+ * The function call enclosing a position, as seen from the text before it.
+ */
+export interface CallContext {
+    functionName: string;
+    /** Number of positional arguments before the current one */
+    positionalIndex: number;
+    /** Names of the named arguments already given */
+    namedArguments: string[];
+    /** Name of the named argument being written, if any */
+    currentNamedArgument?: string;
+    /** Whether the position is inside the braces of an argument */
+    insideArgument: boolean;
+}
+
+const FUNCTION_DEFINITION = /(?<![\w\\.])\.function\s*\{\s*([A-Za-z_]\w*)\s*\}/;
+const VARIABLE_DEFINITION = /(?<![\w\\.])\.var\s*\{\s*([A-Za-z_]\w*)\s*\}(?:\s*\{([^{}]*)\})?/;
+const PARAMETER_LINE = /^\s+((?:[A-Za-z_]\w*\??\s*)+):\s*$/;
+const INCLUDE = /(?<![\w\\.])\.include\s*\{\s*([^{}]+?)\s*\}/;
+const INCLUDE_ALL = /(?<![\w\\.])\.includeall\s*$/;
+const LIST_ITEM = /^(\s+)[-*+]\s+(\S.*?)\s*$/;
+const CALL = /(?<![\w\\.])\.([A-Za-z_]\w*)|::([A-Za-z_]\w*)/g;
+const INLINE_CODE = /(`+)[^`]*?\1/g;
+const DOCUMENT_TYPE = /(?<![\w\\.])\.doctype\s*\{\s*(\w+)\s*\}/;
+
+/**
+ * Marks the lines of `lines` that belong to fenced code blocks, fences included.
+ */
+export function codeBlockLines(lines: string[]): boolean[] {
+    const result: boolean[] = [];
+    let fence: string | null = null;
+
+    for (const line of lines) {
+        const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            if (!fence) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1].startsWith(fence)) {
+                fence = null;
+            }
+            result.push(true);
+            continue;
+        }
+        result.push(fence !== null);
+    }
+
+    return result;
+}
+
+function indentation(line: string): number {
+    return /^\s*/.exec(line)![0].length;
+}
+
+/**
+ * Finds the `.function` and `.var` definitions, the `.include`/`.includeall` references and
+ * the calls of a Quarkdown source. Function parameters are read from the first body line,
+ * e.g. `    from to?:`, and are in scope for the indented body.
+ */
+export function parseSource(text: string): ParsedSource {
+    const lines = text.split(/\r?\n/);
+    const inCode = codeBlockLines(lines);
+    const result: ParsedSource = { functions: [], variables: [], includes: [], calls: [] };
+    let parameterScope: { parameters: string[]; indentation: number } | undefined;
+
+    for (let line = 0; line < lines.length; line++) {
+        if (inCode[line]) {
+            continue;
+        }
+        const content = lines[line];
+
+        if (parameterScope && content.trim() && indentation(content) <= parameterScope.indentation) {
+            parameterScope = undefined;
+        }
+
+        const searchable = content.replace(INLINE_CODE, match => ' '.repeat(match.length));
+        for (const callMatch of searchable.matchAll(CALL)) {
+            const name = callMatch[1] ?? callMatch[2];
+            if (!parameterScope?.parameters.includes(name)) {
+                result.calls.push({ name, line, character: callMatch.index! + (callMatch[1] ? 1 : 2) });
+            }
+        }
+
+        const functionMatch = FUNCTION_DEFINITION.exec(content);
+        if (functionMatch) {
+            const parameterMatch = line + 1 < lines.length ? PARAMETER_LINE.exec(lines[line + 1]) : null;
+            result.functions.push({
+                name: functionMatch[1],
+                line: line,
+                character: content.indexOf(functionMatch[1], functionMatch.index + '.function'.length),
+                parameters: parameterMatch ? parameterMatch[1].trim().split(/\s+/) : []
+            });
+            if (parameterMatch) {
+                parameterScope = {
+                    parameters: parameterMatch[1].trim().split(/\s+/).map(p => p.replace(/\?$/, '')),
+                    indentation: indentation(content)
+                };
+            }
+        }
+
+        const variableMatch = VARIABLE_DEFINITION.exec(content);
+        if (variableMatch) {
+            result.variables.push({
+                name: variableMatch[1],
+                line: line,
+                character: content.indexOf(variableMatch[1], variableMatch.index + '.var'.length),
+                value: variableMatch[2]?.trim()
+            });
+        }
+
+        const includeMatch = INCLUDE.exec(content);
+        if (includeMatch) {
+            result.includes.push({
+                path: includeMatch[1],
+                line: line,
+                character: content.indexOf(includeMatch[1], includeMatch.index + '.include'.length)
+            });
+        }
+
+        if (INCLUDE_ALL.test(content)) {
+            for (let item = line + 1; item < lines.length; item++) {
+                const itemMatch = LIST_ITEM.exec(lines[item]);
+                if (!itemMatch) {
+                    break;
+                }
+                result.includes.push({ path: itemMatch[2], line: item, character: lines[item].indexOf(itemMatch[2], itemMatch[1].length) });
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * The document type set by `.doctype {...}` outside code blocks, e.g. `slides` or `paged`.
+ */
+export function findDocumentType(text: string): string | undefined {
+    const lines = text.split(/\r?\n/);
+    const inCode = codeBlockLines(lines);
+    for (let i = 0; i < lines.length; i++) {
+        const match = inCode[i] ? null : DOCUMENT_TYPE.exec(lines[i].replace(INLINE_CODE, ''));
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Extracts a definition starting at `line` together with its indented body, if any.
+ */
+export function definitionSnippet(text: string, line: number, maxLines = 12): string {
+    const lines = text.split(/\r?\n/);
+    const snippet = [lines[line] ?? ''];
+    for (let next = line + 1; next < lines.length && snippet.length < maxLines; next++) {
+        if (!/^\s+\S/.test(lines[next])) {
+            break;
+        }
+        snippet.push(lines[next]);
+    }
+    return snippet.join('\n');
+}
+
+/**
+ * Finds the innermost function call that `linePrefix` (the text of a line before the cursor)
+ * ends in, following nested calls inside arguments and `::` chains.
+ */
+export function findCallContext(linePrefix: string): CallContext | undefined {
+    interface Frame extends CallContext {
+        depth: number;
+    }
+
+    const frames: Frame[] = [];
+    let depth = 0;
+    let pendingName: string | undefined;
+
+    const pushCall = (functionName: string) => {
+        while (frames.length > 0 && frames[frames.length - 1].depth >= depth) {
+            frames.pop();
+        }
+        frames.push({ functionName, depth, positionalIndex: 0, namedArguments: [], insideArgument: false });
+    };
+
+    let i = 0;
+    while (i < linePrefix.length) {
+        const rest = linePrefix.slice(i);
+        const previous = i > 0 ? linePrefix[i - 1] : '';
+        const top = frames[frames.length - 1];
+
+        const call = /^\.([A-Za-z_]\w*)/.exec(rest);
+        if (call && !/[\w\\.]/.test(previous)) {
+            pushCall(call[1]);
+            i += call[0].length;
+            continue;
+        }
+
+        const chained = /^::([A-Za-z_]\w*)/.exec(rest);
+        if (chained && top && top.depth === depth) {
+            frames.pop();
+            pushCall(chained[1]);
+            i += chained[0].length;
+            continue;
+        }
+
+        const named = /^([A-Za-z_]\w*):(?=\{|$)/.exec(rest);
+        if (named && top && top.depth === depth && !/[\w.:]/.test(previous)) {
+            pendingName = named[1];
+            i += named[0].length;
+            continue;
+        }
+
+        const char = linePrefix[i];
+        if (char === '{') {
+            if (top && top.depth === depth) {
+                top.insideArgument = true;
+                top.currentNamedArgument = pendingName;
+            }
+            pendingName = undefined;
+            depth++;
+        } else if (char === '}' && depth > 0) {
+            depth--;
+            while (frames.length > 0 && frames[frames.length - 1].depth > depth) {
+                frames.pop();
+            }
+            const owner = frames[frames.length - 1];
+            if (owner && owner.depth === depth && owner.insideArgument) {
+                if (owner.currentNamedArgument) {
+                    owner.namedArguments.push(owner.currentNamedArgument);
+                } else {
+                    owner.positionalIndex++;
+                }
+                owner.insideArgument = false;
+                owner.currentNamedArgument = undefined;
+            }
+        }
+        i++;
+    }
+
+    const innermost = frames[frames.length - 1];
+    if (!innermost) {
+        return undefined;
+    }
+    if (!innermost.insideArgument && pendingName) {
+        innermost.currentNamedArgument = pendingName;
+    }
+
+    return {
+        functionName: innermost.functionName,
+        positionalIndex: innermost.positionalIndex,
+        namedArguments: innermost.namedArguments,
+        currentNamedArgument: innermost.currentNamedArgument,
+        insideArgument: innermost.insideArgument
+    };
+}
@@ -0,0 +1,687 @@
+import { CallContext, FunctionDefinition } from './sourceParser';
+
+/**
+ * Bundled description of the Quarkdown standard library, used by completion, signature help
+ * and hover. It is written against the Quarkdown version in `STDLIB_VERSION`: functions added
+ * by later releases are simply not suggested.
+ */
+
+export interface CatalogParameter {
+    name: string;
+    type: string;
+    description: string;
+    optional?: boolean;
+    /** Allowed values, for enum-like parameters */
+    values?: string[];
+    /** Whether the parameter is usually given as an indented body argument */
+    body?: boolean;
+}
+
+export interface CatalogFunction {
+    name: string;
+    /** Standard library module, e.g. `Layout` */
+    module: string;
+    description: string;
+    parameters: CatalogParameter[];
+    example?: string;
+}
+
+export const STDLIB_VERSION = '1.6.3';
+
+const MAIN_AXIS_ALIGNMENTS = ['start', 'center', 'end', 'spacebetween', 'spacearound', 'spaceevenly'];
+const CROSS_AXIS_ALIGNMENTS = ['start', 'center', 'end', 'stretch'];
+const ALIGNMENTS = ['start', 'center', 'end'];
+const TEXT_ALIGNMENTS = ['start', 'center', 'end', 'justify'];
+const BORDER_STYLES = ['normal', 'dashed', 'dotted', 'double'];
+const PAGE_MARGIN_POSITIONS = [
+    'topleftcorner', 'topleft', 'topcenter', 'topright', 'toprightcorner',
+    'righttop', 'rightmiddle', 'rightbottom',
+    'bottomrightcorner', 'bottomright', 'bottomcenter', 'bottomleft', 'bottomleftcorner',
+    'leftbottom', 'leftmiddle', 'lefttop'
+];
+
+const body = (description: string): CatalogParameter => ({ name: 'body', type: 'MarkdownContent', description, body: true });
+
+export const STDLIB_FUNCTIONS: CatalogFunction[] = [
+    // Document
+    {
+        name: 'docname',
+        module: 'Document',
+        description: 'Sets or gets the name of the document, also used as the name of the output.',
+        parameters: [{ name: 'name', type: 'String', description: 'Name of the document. Returns the current name if omitted.', optional: true }],
+        example: '.docname {My Quarkdown Document}'
+    },
+    {
+        name: 'docauthor',
+        module: 'Document',
+        description: 'Sets or gets the author of the document.',
+        parameters: [{ name: 'author', type: 'String', description: 'Author of the document. Returns the current author if omitted.', optional: true }],
+        example: '.docauthor {John Doe}'
+    },
+    {
+        name: 'docauthors',
+        module: 'Document',
+        description: 'Sets the authors of the document, with optional additional information.',
+        parameters: [{ name: 'authors', type: 'Dictionary', description: 'Authors, as a Markdown list of names with optional nested details.', body: true }],
+        example: '.docauthors\n    - John Doe\n        - email: john@example.com\n    - Jane Doe'
+    },
+    {
+        name: 'doctype',
+        module: 'Document',
+        description: 'Sets or gets the type of the document, which determines how it is rendered.',
+        parameters: [{ name: 'type', type: 'DocumentType', description: 'Type of the document. Returns the current type if omitted.', optional: true, values: ['plain', 'paged', 'slides'] }],
+        example: '.doctype {slides}'
+    },
+    {
+        name: 'doclang',
+        module: 'Document',
+        description: 'Sets or gets the language of the document, as an IETF BCP 47 tag or English name.',
+        parameters: [{ name: 'locale', type: 'String', description: 'Language of the document, e.g. `en`, `it`, `zh`. Returns the current language if omitted.', optional: true }],
+        example: '.doclang {en}'
+    },
+    {
+        name: 'theme',
+        module: 'Document',
+        description: 'Sets the color and layout themes of the document.',
+        parameters: [
+            { name: 'color', type: 'String', description: 'Color theme.', optional: true, values: ['paperwhite', 'darko', 'beaver', 'galactic'] },
+            { name: 'layout', type: 'String', description: 'Layout theme.', optional: true, values: ['latex', 'minimal', 'beamer', 'hyperlegible'] }
+        ],
+        example: '.theme {darko} layout:{minimal}'
+    },
+    {
+        name: 'numbering',
+        module: 'Document',
+        description: 'Sets the numbering formats of headings, figures, tables and other numbered elements.',
+        parameters: [{ name: 'formats', type: 'Dictionary', description: 'Format per element type, e.g. `headings: 1.1`, `figures: 1.a`.', body: true }],
+        example: '.numbering\n    - headings: 1.1.1\n    - figures: 1.a\n    - tables: i'
+    },
+    {
+        name: 'pageformat',
+        module: 'Document',
+        description: 'Sets the format of the pages of a paged document.',
+        parameters: [
+            { name: 'size', type: 'PageSizeFormat', description: 'Standard page size.', optional: true, values: ['A0', 'A1', 'A2', 'A3', 'A4', 'A5', 'A6', 'B4', 'B5', 'letter', 'legal', 'ledger'] },
+            { name: 'orientation', type: 'PageOrientation', description: 'Orientation of the pages.', optional: true, values: ['portrait', 'landscape'] },
+            { name: 'width', type: 'Size', description: 'Custom page width, overrides `size`.', optional: true },
+            { name: 'height', type: 'Size', description: 'Custom page height, overrides `size`.', optional: true },
+            { name: 'margin', type: 'Sizes', description: 'Page margins, e.g. `2cm` or `1cm 2cm`.', optional: true },
+            { name: 'borderwidth', type: 'Sizes', description: 'Width of the page border.', optional: true },
+            { name: 'bordercolor', type: 'Color', description: 'Color of the page border.', optional: true },
+            { name: 'columns', type: 'Int', description: 'Number of text columns per page.', optional: true },
+            { name: 'alignment', type: 'Alignment', description: 'Text alignment.', optional: true, values: TEXT_ALIGNMENTS }
+        ],
+        example: '.pageformat {A4} orientation:{landscape} margin:{2cm}'
+    },
+    {
+        name: 'pagemargin',
+        module: 'Document',
+        description: 'Displays content in a margin area of each page of a paged document.',
+        parameters: [
+            { name: 'position', type: 'PageMarginPosition', description: 'Margin area to place the content in.', optional: true, values: PAGE_MARGIN_POSITIONS },
+            body('Content to display in the margin.')
+        ],
+        example: '.pagemargin {topcenter}\n    **My document**'
+    },
+    {
+        name: 'footer',
+        module: 'Document',
+        description: 'Displays content in the footer of each page or slide.',
+        parameters: [body('Content of the footer.')],
+        example: '.footer\n    Jane Doe - 2025'
+    },
+    {
+        name: 'currentpage',
+        module: 'Document',
+        description: 'Displays the number of the current page, typically inside `.pagemargin`.',
+        parameters: [],
+        example: '.pagemargin {bottomcenter}\n    .currentpage'
+    },
+    {
+        name: 'totalpages',
+        module: 'Document',
+        description: 'Displays the total number of pages, typically inside `.pagemargin`.',
+        parameters: [],
+        example: '.currentpage / .totalpages'
+    },
+    {
+        name: 'autopagebreak',
+        module: 'Document',
+        description: 'Sets the maximum heading depth that automatically starts a new page or slide.',
+        parameters: [{ name: 'maxdepth', type: 'Int', description: 'Heading depth up to which page breaks are inserted.' }],
+        example: '.autopagebreak maxdepth:{2}'
+    },
+    {
+        name: 'noautopagebreak',
+        module: 'Document',
+        description: 'Disables automatic page breaks before headings.',
+        parameters: []
+    },
+    {
+        name: 'slides',
+        module: 'Slides',
+        description: 'Sets the properties of a `slides` document.',
+        parameters: [
+            { name: 'center', type: 'Boolean', description: 'Whether slides are vertically centered.', optional: true, values: ['yes', 'no'] },
+            { name: 'controls', type: 'Boolean', description: 'Whether navigation controls are shown.', optional: true, values: ['yes', 'no'] },
+            { name: 'navigation', type: 'SlidesNavigation', description: 'Navigation mode.', optional: true, values: ['default', 'linear', 'grid'] },
+            { name: 'transition', type: 'Transition', description: 'Transition between slides.', optional: true, values: ['none', 'fade', 'slide', 'convex', 'concave', 'zoom'] },
+            { name: 'speed', type: 'TransitionSpeed', description: 'Speed of the transition.', optional: true, values: ['default', 'fast', 'slow'] }
+        ],
+        example: '.slides transition:{zoom} speed:{fast}'
+    },
+    {
+        name: 'fragment',
+        module: 'Slides',
+        description: 'Content revealed step by step in a slide.',
+        parameters: [
+            { name: 'behavior', type: 'FragmentBehavior', description: 'How the fragment appears.', optional: true, values: ['show', 'hide', 'semihide', 'showhide'] },
+            body('Content of the fragment.')
+        ],
+        example: '.fragment {semihide}\n    Revealed on the next step'
+    },
+    {
+        name: 'speakernote',
+        module: 'Slides',
+        description: 'Speaker note attached to the current slide, not shown to the audience.',
+        parameters: [body('Content of the note.')],
+        example: '.speakernote\n    Remember to mention the demo.'
+    },
+
+    // Layout
+    {
+        name: 'row',
+        module: 'Layout',
+        description: 'Stacks content horizontally.',
+        parameters: [
+            { name: 'alignment', type: 'MainAxisAlignment', description: 'Alignment of the items along the row.', optional: true, values: MAIN_AXIS_ALIGNMENTS },
+            { name: 'cross', type: 'CrossAxisAlignment', description: 'Alignment of the items across the row.', optional: true, values: CROSS_AXIS_ALIGNMENTS },
+            { name: 'gap', type: 'Size', description: 'Space between the items, e.g. `1cm`.', optional: true },
+            body('Items to stack.')
+        ],
+        example: '.row alignment:{center} gap:{1cm}\n    Left\n\n    Right'
+    },
+    {
+        name: 'column',
+        module: 'Layout',
+        description: 'Stacks content vertically.',
+        parameters: [
+            { name: 'alignment', type: 'MainAxisAlignment', description: 'Alignment of the items along the column.', optional: true, values: MAIN_AXIS_ALIGNMENTS },
+            { name: 'cross', type: 'CrossAxisAlignment', description: 'Alignment of the items across the column.', optional: true, values: CROSS_AXIS_ALIGNMENTS },
+            { name: 'gap', type: 'Size', description: 'Space between the items.', optional: true },
+            body('Items to stack.')
+        ],
+        example: '.column cross:{center}\n    Top\n\n    Bottom'
+    },
+    {
+        name: 'grid',
+        module: 'Layout',
+        description: 'Arranges content in a grid with a fixed number of columns.',
+        parameters: [
+            { name: 'columns', type: 'Int', description: 'Number of columns.' },
+            { name: 'alignment', type: 'MainAxisAlignment', description: 'Horizontal alignment of the items.', optional: true, values: MAIN_AXIS_ALIGNMENTS },
+            { name: 'cross', type: 'CrossAxisAlignment', description: 'Vertical alignment of the items.', optional: true, values: CROSS_AXIS_ALIGNMENTS },
+            { name: 'gap', type: 'Size', description: 'Space between rows and columns.', optional: true },
+            { name: 'hgap', type: 'Size', description: 'Space between columns.', optional: true },
+            { name: 'vgap', type: 'Size', description: 'Space between rows.', optional: true },
+            body('Items to arrange.')
+        ],
+        example: '.grid columns:{2} gap:{1cm}\n    A\n\n    B\n\n    C'
+    },
+    {
+        name: 'center',
+        module: 'Layout',
+        description: 'Centers content horizontally.',
+        parameters: [body('Content to center.')],
+        example: '.center\n    Centered text'
+    },
+    {
+        name: 'container',
+        module: 'Layout',
+        description: 'General-purpose block that styles and sizes its content.',
+        parameters: [
+            { name: 'width', type: 'Size', description: 'Width, e.g. `80%` or `10cm`.', optional: true },
+            { name: 'height', type: 'Size', description: 'Height.', optional: true },
+            { name: 'fullwidth', type: 'Boolean', description: 'Whether the container spans the whole available width.', optional: true, values: ['yes', 'no'] },
+            { name: 'foreground', type: 'Color', description: 'Text color.', optional: true },
+            { name: 'background', type: 'Color', description: 'Background color.', optional: true },
+            { name: 'border', type: 'Color', description: 'Border color.', optional: true },
+            { name: 'borderwidth', type: 'Sizes', description: 'Border width.', optional: true },
+            { name: 'borderstyle', type: 'BorderStyle', description: 'Border style.', optional: true, values: BORDER_STYLES },
+            { name: 'margin', type: 'Sizes', description: 'Outer spacing.', optional: true },
+            { name: 'padding', type: 'Sizes', description: 'Inner spacing.', optional: true },
+            { name: 'radius', type: 'Sizes', description: 'Corner radius.', optional: true },
+            { name: 'alignment', type: 'Alignment', description: 'Alignment of the content.', optional: true, values: ALIGNMENTS },
+            { name: 'textalignment', type: 'TextAlignment', description: 'Alignment of the text.', optional: true, values: TEXT_ALIGNMENTS },
+            { name: 'float', type: 'Alignment', description: 'Floats the container to one side, letting text wrap around it.', optional: true, values: ['start', 'end'] },
+            body('Content of the container.')
+        ],
+        example: '.container width:{80%} background:{#eee} padding:{1cm}\n    Content'
+    },
+    {
+        name: 'float',
+        module: 'Layout',
+        description: 'Floats content to one side, letting the following text wrap around it.',
+        parameters: [
+            { name: 'alignment', type: 'Alignment', description: 'Side to float to.', values: ['start', 'end'] },
+            body('Floating content.')
+        ],
+        example: '.float {end}\n    ![Logo](logo.png)'
+    },
+    {
+        name: 'box',
+        module: 'Layout',
+        description: 'Framed box with an optional title, also used for callouts.',
+        parameters: [
+            { name: 'title', type: 'InlineMarkdownContent', description: 'Title of the box.', optional: true },
+            { name: 'type', type: 'BoxType', description: 'Style of the box.', optional: true, values: ['callout', 'tip', 'note', 'warning', 'error'] },
+            { name: 'padding', type: 'Size', description: 'Inner spacing.', optional: true },
+            { name: 'background', type: 'Color', description: 'Background color.', optional: true },
+            { name: 'foreground', type: 'Color', description: 'Text color.', optional: true },
+            body('Content of the box.')
+        ],
+        example: '.box {Warning} type:{warning}\n    Mind the gap.'
+    },
+    {
+        name: 'collapse',
+        module: 'Layout',
+        description: 'Collapsible block, expanded by clicking its title.',
+        parameters: [
+            { name: 'title', type: 'InlineMarkdownContent', description: 'Title shown when collapsed.' },
+            { name: 'open', type: 'Boolean', description: 'Whether the block starts expanded.', optional: true, values: ['yes', 'no'] },
+            body('Hidden content.')
+        ],
+        example: '.collapse {Details}\n    Hidden content'
+    },
+    {
+        name: 'clip',
+        module: 'Layout',
+        description: 'Clips content to a shape.',
+        parameters: [
+            { name: 'clip', type: 'Clip', description: 'Shape to clip to.', values: ['circle'] },
+            body('Content to clip.')
+        ],
+        example: '.clip {circle}\n    ![Avatar](avatar.png)'
+    },
+    {
+        name: 'figure',
+        module: 'Layout',
+        description: 'Numbered figure with an optional caption.',
+        parameters: [
+            { name: 'caption', type: 'String', description: 'Caption of the figure.', optional: true },
+            body('Content of the figure.')
+        ],
+        example: '.figure caption:{Results}\n    ![Chart](chart.png)'
+    },
+    {
+        name: 'whitespace',
+        module: 'Layout',
+        description: 'Empty space of the given size.',
+        parameters: [
+            { name: 'width', type: 'Size', description: 'Horizontal space.', optional: true },
+            { name: 'height', type: 'Size', description: 'Vertical space.', optional: true }
+        ],
+        example: '.whitespace height:{2cm}'
+    },
+    {
+        name: 'pagebreak',
+        module: 'Layout',
+        description: 'Starts a new page or slide. Equivalent to `<<<`.',
+        parameters: []
+    },
+    {
+        name: 'fullspan',
+        module: 'Layout',
+        description: 'Makes content span all the columns of a multi-column page.',
+        parameters: [body('Content spanning all columns.')]
+    },
+    {
+        name: 'toc',
+        module: 'Layout',
+        description: 'Table of contents of the document.',
+        parameters: [
+            { name: 'title', type: 'InlineMarkdownContent', description: 'Title of the table of contents.', optional: true },
+            { name: 'maxdepth', type: 'Int', description: 'Maximum heading depth to include.', optional: true },
+            { name: 'focus', type: 'InlineMarkdownContent', description: 'Heading to highlight.', optional: true }
+        ],
+        example: '.toc maxdepth:{2}'
+    },
+    {
+        name: 'mermaid',
+        module: 'Mermaid',
+        description: 'Renders a Mermaid diagram.',
+        parameters: [
+            { name: 'caption', type: 'String', description: 'Caption of the diagram figure.', optional: true },
+            { name: 'code', type: 'String', description: 'Mermaid code.', body: true }
+        ],
+        example: '.mermaid\n    graph TD\n        A-->B'
+    },
+
+    // Text
+    {
+        name: 'text',
+        module: 'Text',
+        description: 'Styles inline text.',
+        parameters: [
+            { name: 'text', type: 'InlineMarkdownContent', description: 'Text to style.' },
+            { name: 'size', type: 'TextSize', description: 'Font size.', optional: true, values: ['tiny', 'small', 'normal', 'medium', 'larger', 'large', 'huge'] },
+            { name: 'weight', type: 'TextWeight', description: 'Font weight.', optional: true, values: ['normal', 'bold'] },
+            { name: 'style', type: 'TextStyle', description: 'Font style.', optional: true, values: ['normal', 'italic'] },
+            { name: 'decoration', type: 'TextDecoration', description: 'Text decoration.', optional: true, values: ['none', 'underline', 'overline', 'underoverline', 'strikethrough', 'all'] },
+            { name: 'case', type: 'TextCase', description: 'Letter case transformation.', optional: true, values: ['none', 'uppercase', 'lowercase', 'capitalize'] },
+            { name: 'variant', type: 'TextVariant', description: 'Font variant.', optional: true, values: ['normal', 'smallcaps'] },
+            { name: 'color', type: 'Color', description: 'Text color.', optional: true },
+            { name: 'url', type: 'String', description: 'Turns the text into a link.', optional: true }
+        ],
+        example: '.text {Important} size:{large} weight:{bold} color:{red}'
+    },
+    {
+        name: 'code',
+        module: 'Text',
+        description: 'Code block whose content can be generated by function calls.',
+        parameters: [
+            { name: 'lang', type: 'String', description: 'Language for syntax highlighting.', optional: true },
+            { name: 'linenumbers', type: 'Boolean', description: 'Whether line numbers are shown.', optional: true, values: ['yes', 'no'] },
+            { name: 'focus', type: 'Range', description: 'Lines to focus, e.g. `2..4`.', optional: true },
+            { name: 'code', type: 'String', description: 'Code content.', body: true }
+        ],
+        example: '.code {kotlin} focus:{2..3}\n    .read {Main.kt}'
+    },
+    {
+        name: 'loremipsum',
+        module: 'Text',
+        description: 'Placeholder Lorem Ipsum paragraph.',
+        parameters: []
+    },
+
+    // Files and modules
+    {
+        name: 'include',
+        module: 'Ecosystem',
+        description: 'Includes the content of another Quarkdown file, sharing its definitions.',
+        parameters: [{ name: 'file', type: 'String', description: 'Path of the file, relative to the current one.' }],
+        example: '.include {chapters/introduction.qd}'
+    },
+    {
+        name: 'includeall',
+        module: 'Ecosystem',
+        description: 'Includes several Quarkdown files in order.',
+        parameters: [{ name: 'files', type: 'Iterable', description: 'Paths of the files, as a Markdown list.', body: true }],
+        example: '.includeall\n    - chapters/one.qd\n    - chapters/two.qd'
+    },
+    {
+        name: 'read',
+        module: 'Ecosystem',
+        description: 'Reads the content of a text file.',
+        parameters: [
+            { name: 'path', type: 'String', description: 'Path of the file.' },
+            { name: 'lines', type: 'Range', description: 'Lines to read, e.g. `1..10`.', optional: true }
+        ],
+        example: '.read {snippet.txt} lines:{1..5}'
+    },
+    {
+        name: 'csv',
+        module: 'Data',
+        description: 'Renders a CSV file as a table.',
+        parameters: [
+            { name: 'path', type: 'String', description: 'Path of the CSV file.' },
+            { name: 'caption', type: 'String', description: 'Caption of the table.', optional: true }
+        ],
+        example: '.csv {data.csv} caption:{Results}'
+    },
+
+    // Scripting
+    {
+        name: 'function',
+        module: 'Flow',
+        description: 'Defines a custom function. Parameters are listed on the first body line, followed by `:`; optional ones end with `?`.',
+        parameters: [
+            { name: 'name', type: 'String', description: 'Name of the function.' },
+            { name: 'body', type: 'Lambda', description: 'Parameters and body of the function.', body: true }
+        ],
+        example: '.function {greet}\n    to from?:\n    Hello, .to from .from!'
+    },
+    {
+        name: 'var',
+        module: 'Flow',
+        description: 'Defines a variable, or reassigns it if it already exists. Its value is read by calling `.name`.',
+        parameters: [
+            { name: 'name', type: 'String', description: 'Name of the variable.' },
+            { name: 'value', type: 'DynamicValue', description: 'Value of the variable.' }
+        ],
+        example: '.var {color} {blue}\n\n.text {Hello} color:{.color}'
+    },
+    {
+        name: 'let',
+        module: 'Flow',
+        description: 'Binds a value to a name inside a scoped body.',
+        parameters: [
+            { name: 'value', type: 'DynamicValue', description: 'Value to bind.' },
+            { name: 'body', type: 'Lambda', description: 'Scope in which the value is available.', body: true }
+        ],
+        example: '.let {world}\n    name:\n    Hello, .name!'
+    },
+    {
+        name: 'if',
+        module: 'Flow',
+        description: 'Shows content only if a condition is true.',
+        parameters: [
+            { name: 'condition', type: 'Boolean', description: 'Condition to check.' },
+            body('Content shown when the condition holds.')
+        ],
+        example: '.if {.isgreater {.x} {10}}\n    Large value'
+    },
+    {
+        name: 'ifnot',
+        module: 'Flow',
+        description: 'Shows content only if a condition is false.',
+        parameters: [
+            { name: 'condition', type: 'Boolean', description: 'Condition to check.' },
+            body('Content shown when the condition does not hold.')
+        ]
+    },
+    {
+        name: 'foreach',
+        module: 'Flow',
+        description: 'Repeats content for each item of an iterable.',
+        parameters: [
+            { name: 'iterable', type: 'Iterable', description: 'Items to iterate, e.g. a range `1..5` or a list.' },
+            { name: 'body', type: 'Lambda', description: 'Content repeated for each item, which can be named on the first body line.', body: true }
+        ],
+        example: '.foreach {1..3}\n    n:\n    Item .n'
+    },
+    {
+        name: 'repeat',
+        module: 'Flow',
+        description: 'Repeats content a number of times.',
+        parameters: [
+            { name: 'times', type: 'Int', description: 'Number of repetitions.' },
+            { name: 'body', type: 'Lambda', description: 'Content to repeat.', body: true }
+        ],
+        example: '.repeat {3}\n    Hello!'
+    },
+
+    // Math and logic
+    {
+        name: 'sum',
+        module: 'Math',
+        description: 'Sum of two numbers.',
+        parameters: [
+            { name: 'a', type: 'Number', description: 'First operand.' },
+            { name: 'b', type: 'Number', description: 'Second operand.' }
+        ],
+        example: '.sum {2} {3}'
+    },
+    {
+        name: 'subtract',
+        module: 'Math',
+        description: 'Difference of two numbers.',
+        parameters: [
+            { name: 'a', type: 'Number', description: 'Minuend.' },
+            { name: 'b', type: 'Number', description: 'Subtrahend.' }
+        ]
+    },
+    {
+        name: 'multiply',
+        module: 'Math',
+        description: 'Product of two numbers.',
+        parameters: [
+            { name: 'a', type: 'Number', description: 'First factor.' },
+            { name: 'b', type: 'Number', description: 'Second factor.' }
+        ]
+    },
+    {
+        name: 'divide',
+        module: 'Math',
+        description: 'Quotient of two numbers.',
+        parameters: [
+            { name: 'a', type: 'Number', description: 'Dividend.' },
+            { name: 'b', type: 'Number', description: 'Divisor.' }
+        ]
+    },
+    {
+        name: 'isgreater',
+        module: 'Logical',
+        description: 'Whether a number is greater than another.',
+        parameters: [
+            { name: 'a', type: 'Number', description: 'Number to compare.' },
+            { name: 'b', type: 'Number', description: 'Number to compare against.' },
+            { name: 'equals', type: 'Boolean', description: 'Whether equality also counts.', optional: true, values: ['yes', 'no'] }
+        ]
+    },
+    {
+        name: 'islower',
+        module: 'Logical',
+        description: 'Whether a number is lower than another.',
+        parameters: [
+            { name: 'a', type: 'Number', description: 'Number to compare.' },
+            { name: 'b', type: 'Number', description: 'Number to compare against.' },
+            { name: 'equals', type: 'Boolean', description: 'Whether equality also counts.', optional: true, values: ['yes', 'no'] }
+        ]
+    },
+    {
+        name: 'equals',
+        module: 'Logical',
+        description: 'Whether two values are equal.',
+        parameters: [
+            { name: 'a', type: 'DynamicValue', description: 'First value.' },
+            { name: 'b', type: 'DynamicValue', description: 'Second value.' }
+        ]
+    },
+    {
+        name: 'not',
+        module: 'Logical',
+        description: 'Negation of a boolean.',
+        parameters: [{ name: 'value', type: 'Boolean', description: 'Value to negate.' }]
+    },
+
+    // Collections and strings
+    {
+        name: 'range',
+        module: 'Collection',
+        description: 'Range of integers. Equivalent to `start..end`.',
+        parameters: [
+            { name: 'start', type: 'Int', description: 'First value.', optional: true },
+            { name: 'end', type: 'Int', description: 'Last value, inclusive.', optional: true }
+        ],
+        example: '.foreach {.range {1} {5}}'
+    },
+    {
+        name: 'size',
+        module: 'Collection',
+        description: 'Number of items of an iterable.',
+        parameters: [{ name: 'iterable', type: 'Iterable', description: 'Iterable to measure.' }]
+    },
+    {
+        name: 'uppercase',
+        module: 'String',
+        description: 'Converts a string to upper case.',
+        parameters: [{ name: 'string', type: 'String', description: 'String to convert.' }],
+        example: '.uppercase {hello}'
+    },
+    {
+        name: 'lowercase',
+        module: 'String',
+        description: 'Converts a string to lower case.',
+        parameters: [{ name: 'string', type: 'String', description: 'String to convert.' }]
+    },
+    {
+        name: 'capitalize',
+        module: 'String',
+        description: 'Capitalizes the first letter of a string.',
+        parameters: [{ name: 'string', type: 'String', description: 'String to capitalize.' }]
+    },
+    {
+        name: 'concatenate',
+        module: 'String',
+        description: 'Concatenates two strings.',
+        parameters: [
+            { name: 'a', type: 'String', description: 'First string.' },
+            { name: 'b', type: 'String', description: 'Second string.' }
+        ]
+    }
+];
+
+const functionsByName = new Map(STDLIB_FUNCTIONS.map(f => [f.name, f]));
+
+export function findStdlibFunction(name: string): CatalogFunction | undefined {
+    return functionsByName.get(name);
+}
+
+/**
+ * Describes a user-defined `.function` like a catalog entry. Parameters declared
+ * with a trailing `?` are optional.
+ */
+export function fromUserFunction(definition: FunctionDefinition, description = 'User-defined function.'): CatalogFunction {
+    return {
+        name: definition.name,
+        module: 'User',
+        description,
+        parameters: definition.parameters.map(parameter => ({
+            name: parameter.replace(/\?$/, ''),
+            type: 'DynamicValue',
+            description: '',
+            optional: parameter.endsWith('?')
+        }))
+    };
+}
+
+export interface FormattedSignature {
+    label: string;
+    /** Offsets of each parameter inside `label` */
+    parameterOffsets: [number, number][];
+}
+
+/**
+ * Formats a function as `.name(param: Type, other?: Type)`.
+ */
+export function formatSignature(catalogFunction: CatalogFunction): FormattedSignature {
+    let label = `.${catalogFunction.name}(`;
+    const parameterOffsets: [number, number][] = [];
+
+    catalogFunction.parameters.forEach((parameter, index) => {
+        if (index > 0) {
+            label += ', ';
+        }
+        const text = `${parameter.name}${parameter.optional ? '?' : ''}: ${parameter.type}`;
+        parameterOffsets.push([label.length, label.length + text.length]);
+        label += text;
+    });
+
+    return { label: label + ')', parameterOffsets };
+}
+
+/**
+ * @returns the index of the parameter being written in `context`: the named one if any,
+ * otherwise the next positional parameter, skipping those already given by name
+ */
+export function activeParameterIndex(catalogFunction: CatalogFunction, context: CallContext): number {
+    if (context.currentNamedArgument) {
+        return catalogFunction.parameters.findIndex(p => p.name === context.currentNamedArgument);
+    }
+
+    const positional = catalogFunction.parameters
+        .map((parameter, index) => ({ parameter, index }))
+        .filter(({ parameter }) => !context.namedArguments.includes(parameter.name));
+    return positional[context.positionalIndex]?.index ?? -1;
+}
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import { CallReference, FunctionDefinition, ParsedSource, VariableDefinition, parseSource } from './sourceParser';
+import { isQuarkdownDocument } from './language';
+import { resolveIncludePath } from './includes';
+import { QuarkdownLogger } from './logger';
+
+export interface IndexedFunction extends FunctionDefinition {
+    uri: vscode.Uri;
+}
+
+export interface IndexedVariable extends VariableDefinition {
+    uri: vscode.Uri;
+}
+
+export interface IndexedCall extends CallReference {
+    uri: vscode.Uri;
+}
+
+const QUARKDOWN_GLOB = '**/*.{qd,qmd}';
+const EXCLUDE_GLOB = '**/{node_modules,output,.git}/**';
+
+/**
+ * Definitions (`.function`, `.var`) and calls found in the Quarkdown files of the workspace.
+ * Open documents are indexed from their buffer, the others from disk.
+ */
+export class QuarkdownSymbolIndex implements vscode.Disposable {
+    private static instance: QuarkdownSymbolIndex;
+    private sources = new Map<string, { uri: vscode.Uri; parsed: ParsedSource }>();
+    private disposables: vscode.Disposable[] = [];
+    private initialScan: Promise<void> | undefined;
+    private logger = QuarkdownLogger.getInstance();
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fired whenever a file is indexed again or removed */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    public static getInstance(): QuarkdownSymbolIndex {
+        if (!QuarkdownSymbolIndex.instance) {
+            QuarkdownSymbolIndex.instance = new QuarkdownSymbolIndex();
+        }
+        return QuarkdownSymbolIndex.instance;
+    }
+
+    private constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(QUARKDOWN_GLOB);
+        watcher.onDidCreate(uri => this.indexFile(uri));
+        watcher.onDidChange(uri => {
+            // Open documents are kept up to date from their buffer
+            if (!vscode.workspace.textDocuments.some(d => d.uri.toString() === uri.toString())) {
+                this.indexFile(uri);
+            }
+        });
+        watcher.onDidDelete(uri => this.remove(uri));
+
+        this.disposables.push(
+            watcher,
+            this.changeEmitter,
+            vscode.workspace.onDidOpenTextDocument(document => this.indexDocument(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.indexDocument(event.document)),
+            // Unsaved edits are lost on close, so fall back to the file on disk
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (isQuarkdownDocument(document) && document.uri.scheme === 'file') {
+                    this.indexFile(document.uri);
+                } else {
+                    this.remove(document.uri);
+                }
+            })
+        );
+    }
+
+    /**
+     * Resolves once the workspace has been scanned. Open documents are always indexed.
+     */
+    public ready(): Promise<void> {
+        if (!this.initialScan) {
+            this.initialScan = this.scanWorkspace();
+        }
+        return this.initialScan;
+    }
+
+    public getFunctions(): IndexedFunction[] {
+        const result: IndexedFunction[] = [];
+        for (const { uri, parsed } of this.sources.values()) {
+            result.push(...parsed.functions.map(f => ({ ...f, uri })));
+        }
+        return result;
+    }
+
+    public getVariables(): IndexedVariable[] {
+        const result: IndexedVariable[] = [];
+        for (const { uri, parsed } of this.sources.values()) {
+            result.push(...parsed.variables.map(v => ({ ...v, uri })));
+        }
+        return result;
+    }
+
+    public findFunction(name: string): IndexedFunction | undefined {
+        return this.getFunctions().find(f => f.name === name);
+    }
+
+    /**
+     * @returns the `.function` and `.var` definitions of `name`
+     */
+    public findDefinitions(name: string): (IndexedFunction | IndexedVariable)[] {
+        return [
+            ...this.getFunctions().filter(f => f.name === name),
+            ...this.getVariables().filter(v => v.name === name)
+        ];
+    }
+
+    public findCalls(name: string): IndexedCall[] {
+        const result: IndexedCall[] = [];
+        for (const { uri, parsed } of this.sources.values()) {
+            result.push(...parsed.calls.filter(c => c.name === name).map(c => ({ ...c, uri })));
+        }
+        return result;
+    }
+
+    /**
+     * @returns the paths of the indexed files on disk
+     */
+    public getIndexedFiles(): string[] {
+        return [...this.sources.values()].filter(({ uri }) => uri.scheme === 'file').map(({ uri }) => uri.fsPath);
+    }
+
+    /**
+     * @returns the resolved paths of the files included by the file at `filePath`, in include order
+     */
+    public getIncludedFiles(filePath: string): string[] {
+        const source = this.sources.get(vscode.Uri.file(filePath).toString());
+        return source ? source.parsed.includes.map(i => resolveIncludePath(filePath, i.path)) : [];
+    }
+
+    /**
+     * @returns the paths of the files that `.include` the file at `filePath`
+     */
+    public findIncluders(filePath: string): string[] {
+        const result: string[] = [];
+        for (const { uri, parsed } of this.sources.values()) {
+            if (uri.scheme === 'file' && parsed.includes.some(i => resolveIncludePath(uri.fsPath, i.path) === filePath)) {
+                result.push(uri.fsPath);
+            }
+        }
+        return result;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.sources.clear();
+    }
+
+    private async scanWorkspace(): Promise<void> {
+        try {
+            const uris = await vscode.workspace.findFiles(QUARKDOWN_GLOB, EXCLUDE_GLOB);
+            await Promise.all(uris.map(uri => this.indexFile(uri)));
+        } catch (error) {
+            this.logger.error('Failed to index Quarkdown files:', error);
+        }
+        vscode.workspace.textDocuments.forEach(document => this.indexDocument(document));
+    }
+
+    private indexDocument(document: vscode.TextDocument): void {
+        if (!isQuarkdownDocument(document)) {
+            return;
+        }
+        this.sources.set(document.uri.toString(), { uri: document.uri, parsed: parseSource(document.getText()) });
+        this.changeEmitter.fire();
+    }
+
+    private async indexFile(uri: vscode.Uri): Promise<void> {
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (openDocument) {
+            this.indexDocument(openDocument);
+            return;
+        }
+        try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            this.sources.set(uri.toString(), { uri, parsed: parseSource(content) });
+            this.changeEmitter.fire();
+        } catch {
+            this.remove(uri);
+        }
+    }
+
+    private remove(uri: vscode.Uri): void {
+        if (this.sources.delete(uri.toString())) {
+            this.changeEmitter.fire();
+        }
+    }
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { DEFAULT_PROFILE_OUTPUT, QuarkdownTaskCommand, buildTaskArgs } from './compileProfiles';
+import { findProjectFiles } from './projectRoot';
+
+export const QUARKDOWN_TASK_TYPE = 'quarkdown';
+
+/**
+ * A `quarkdown` task of `tasks.json`. Paths are relative to the workspace folder.
+ */
+export interface QuarkdownTaskDefinition extends vscode.TaskDefinition {
+    command: QuarkdownTaskCommand;
+    /** Entry file; the file of the active editor when omitted */
+    file?: string;
+    /** Defaults to `output` */
+    outputDirectory?: string;
+    /** Extra command line flags passed to `quarkdown c` */
+    args?: string[];
+    /** Port of the `serve` live preview server */
+    port?: number;
+}
+
+const TASK_NAMES: Record<QuarkdownTaskCommand, (file: string) => string> = {
+    compile: file => `compile ${file}`,
+    pdf: file => `compile ${file} to PDF`,
+    serve: file => `serve ${file}`
+};
+
+/**
+ * Contributes compile, PDF and serve tasks for the projects of the workspace, and runs
+ * the `quarkdown` tasks of `tasks.json` in the terminal with the `$quarkdown` and
+ * `$quarkdown-inline` problem matchers.
+ */
+export class QuarkdownTaskProvider implements vscode.TaskProvider {
+    public async provideTasks(): Promise<vscode.Task[]> {
+        const tasks: vscode.Task[] = [];
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            for (const entry of await this.getEntryFiles(folder)) {
+                for (const command of Object.keys(TASK_NAMES) as QuarkdownTaskCommand[]) {
+                    tasks.push(this.createTask({ type: QUARKDOWN_TASK_TYPE, command, file: entry }, folder));
+                }
+            }
+        }
+        return tasks;
+    }
+
+    public resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as QuarkdownTaskDefinition;
+        if (definition.type !== QUARKDOWN_TASK_TYPE || !(definition.command in TASK_NAMES)) {
+            return undefined;
+        }
+        const scope = typeof task.scope === 'object' ? task.scope : undefined;
+        return this.createTask(definition, scope, task.name);
+    }
+
+    private createTask(definition: QuarkdownTaskDefinition, folder?: vscode.WorkspaceFolder, name?: string): vscode.Task {
+        const config = vscode.workspace.getConfiguration('quarkdownPreview', folder?.uri);
+        const quarkdownPath = config.get<string>('quarkdownPath', 'quarkdown');
+        const file = definition.file || '${file}';
+        const args = buildTaskArgs(
+            definition.command,
+            file,
+            definition.outputDirectory || DEFAULT_PROFILE_OUTPUT,
+            definition.args,
+            definition.port
+        );
+
+        const isBackground = definition.command === 'serve';
+        const task = new vscode.Task(
+            definition,
+            folder ?? vscode.TaskScope.Workspace,
+            name ?? TASK_NAMES[definition.command](file),
+            QUARKDOWN_TASK_TYPE,
+            new vscode.ShellExecution(quarkdownPath, args, folder ? { cwd: folder.uri.fsPath } : undefined),
+            // Errors followed by their location, and errors with it on the same line
+            isBackground ? ['$quarkdown-watch', '$quarkdown-inline-watch'] : ['$quarkdown', '$quarkdown-inline']
+        );
+        task.isBackground = isBackground;
+        if (!isBackground) {
+            task.group = vscode.TaskGroup.Build;
+        }
+        return task;
+    }
+
+    // The configured main document, or the files of the folder that no other file includes
+    private async getEntryFiles(folder: vscode.WorkspaceFolder): Promise<string[]> {
+        const folderPath = folder.uri.fsPath;
+        const mainDocument = vscode.workspace.getConfiguration('quarkdownPreview', folder.uri).get<string>('mainDocument', '').trim();
+        if (mainDocument && fs.existsSync(path.resolve(folderPath, mainDocument))) {
+            return [mainDocument];
+        }
+
+        return (await findProjectFiles())
+            .filter(filePath => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath === folderPath)
+            .map(filePath => path.relative(folderPath, filePath).split(path.sep).join('/'));
+    }
+}
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { mirrorOutputDirectory, runBatch } from '../batch';
+
+suite('Batch Test Suite', () => {
+	test('Runs at most limit items at once and reports failures in order', async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const outcomes = await runBatch([1, 2, 3, 4, 5], 2, async item => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise(resolve => setTimeout(resolve, 5));
+			running--;
+			if (item === 3) {
+				throw new Error('boom');
+			}
+		});
+
+		assert.strictEqual(maxRunning, 2);
+		assert.deepStrictEqual(outcomes.map(outcome => outcome.item), [1, 2, 3, 4, 5]);
+		assert.deepStrictEqual(outcomes.map(outcome => outcome.error !== undefined), [false, false, true, false, false]);
+	});
+
+	test('Stops starting items once cancelled', async () => {
+		let cancelled = false;
+		const started: number[] = [];
+		const outcomes = await runBatch([1, 2, 3], 1, async item => {
+			started.push(item);
+			cancelled = true;
+			throw new Error('killed');
+		}, () => cancelled);
+
+		assert.deepStrictEqual(started, [1]);
+		assert.ok(outcomes.every(outcome => outcome.cancelled && outcome.error === undefined));
+	});
+
+	test('Mirrors the source tree in the output directory', () => {
+		const workspace = path.resolve('/workspace');
+		const output = path.join(workspace, 'output');
+		assert.strictEqual(
+			mirrorOutputDirectory(path.join(workspace, 'handouts', 'week1.qd'), workspace, output),
+			path.join(output, 'handouts', 'week1')
+		);
+		assert.strictEqual(mirrorOutputDirectory(path.join(workspace, 'main.qmd'), workspace, output), path.join(output, 'main'));
+		assert.strictEqual(mirrorOutputDirectory(path.resolve('/elsewhere/notes.qd'), workspace, output), path.join(output, 'notes'));
+	});
+});
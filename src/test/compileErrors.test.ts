@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CompileError, parseCompileErrors } from '../compileErrors';
+
+interface ProblemPattern {
+	regexp: string;
+	message?: number;
+	file?: number;
+	line?: number;
+	column?: number;
+}
+
+/**
+ * Runs a problem pattern of package.json the way VS Code does: every line of a
+ * multi-line pattern must match consecutive lines of the output.
+ */
+function matchProblems(output: string, patterns: ProblemPattern[]): CompileError[] {
+	const lines = output.split(/\r?\n/);
+	const problems: CompileError[] = [];
+	for (let i = 0; i + patterns.length <= lines.length; i++) {
+		const matches = patterns.map((pattern, j) => new RegExp(pattern.regexp).exec(lines[i + j]));
+		if (matches.some(match => !match)) {
+			continue;
+		}
+		const problem: Partial<CompileError> = {};
+		patterns.forEach((pattern, j) => {
+			const match = matches[j]!;
+			const group = (index?: number) => index === undefined ? undefined : match[index];
+			problem.message ??= group(pattern.message);
+			problem.file ??= group(pattern.file);
+			if (group(pattern.line) !== undefined) {
+				problem.line = parseInt(group(pattern.line)!, 10);
+			}
+			if (group(pattern.column) !== undefined) {
+				problem.column = parseInt(group(pattern.column)!, 10);
+			}
+		});
+		problems.push({ message: problem.message!, file: problem.file, line: problem.line, column: problem.column });
+	}
+	return problems;
+}
+
+suite('Compile Errors Test Suite', () => {
+	test('Parses function call errors with their location', () => {
+		const output = [
+			'\u001b[31mError: Cannot call function row: No such element \'centre\' among values [start, center, end]\u001b[0m',
+			'    in chapters/intro.qd:12:5',
+			'\tat com.quarkdown.core.function.call.FunctionCall.execute(FunctionCall.kt:42)'
+		].join('\n');
+
+		const errors = parseCompileErrors(output);
+		assert.strictEqual(errors.length, 1);
+		assert.strictEqual(errors[0].functionName, 'row');
+		assert.strictEqual(errors[0].file, 'chapters/intro.qd');
+		assert.strictEqual(errors[0].line, 12);
+		assert.strictEqual(errors[0].column, 5);
+		assert.ok(errors[0].message.startsWith('Cannot call function row'));
+	});
+
+	test('Reports errors without location and skips stack frames', () => {
+		const output = [
+			'Exception in thread "main" UnresolvedReferenceException: Unresolved reference mycolor',
+			'\tat com.quarkdown.cli.MainKt.main(Main.kt:10)',
+			'Compilation finished'
+		].join('\n');
+
+		const errors = parseCompileErrors(output);
+		assert.deepStrictEqual(errors, [{
+			message: 'Unresolved reference mycolor',
+			functionName: 'mycolor'
+		}]);
+		assert.deepStrictEqual(parseCompileErrors('[ERROR] Invalid value for size\n    in main.qd:3'), [{
+			message: 'Invalid value for size',
+			file: 'main.qd',
+			line: 3,
+			column: undefined
+		}]);
+	});
+
+	test('Problem matchers of tasks find the errors with a location', () => {
+		const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+		const problemPatterns: (Partial<ProblemPattern> & { name: string; patterns?: ProblemPattern[] })[] = packageJson.contributes.problemPatterns;
+		const matchers = packageJson.contributes.problemMatchers as { pattern?: string }[];
+		const patterns = matchers
+			.filter(matcher => matcher.pattern)
+			.map(matcher => problemPatterns.find(pattern => `$${pattern.name}` === matcher.pattern)!)
+			.map(pattern => pattern.patterns ?? [pattern as ProblemPattern]);
+
+		const outputs = [
+			[
+				'Error: Cannot call function row: No such element \'centre\' among values [start, center, end]',
+				'    in chapters/intro.qd:12:5',
+				'\tat com.quarkdown.core.function.call.FunctionCall.execute(FunctionCall.kt:42)'
+			].join('\n'),
+			[
+				'Exception in thread "main" UnresolvedReferenceException: Unresolved reference mycolor',
+				'\tat com.quarkdown.cli.MainKt.main(Main.kt:10)',
+				'Compilation finished'
+			].join('\n'),
+			'[ERROR] Invalid value for size\n    in main.qd:3',
+			'Compiling main.qd\nError: Unexpected token at main.qd:4:2\nDone in 1.2s',
+			'Invalidated 3 cached files\nTheme not found in cache, downloading'
+		];
+		for (const output of outputs) {
+			const expected = parseCompileErrors(output)
+				.filter(error => error.file)
+				.map(error => ({ message: error.message, file: error.file, line: error.line, column: error.column }));
+			const problems = patterns.flatMap(pattern => matchProblems(output, pattern));
+			assert.deepStrictEqual(problems, expected, output);
+		}
+	});
+
+	test('Ignores regular output', () => {
+		assert.deepStrictEqual(parseCompileErrors('Compiling main.qd\nDone in 1.2s'), []);
+		assert.deepStrictEqual(parseCompileErrors([
+			'Invalidated 3 cached files',
+			'Theme not found in cache, downloading',
+			'Compiled error-handling.qd without errors'
+		].join('\n')), []);
+	});
+});
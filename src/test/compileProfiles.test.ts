@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildProfileArgs, buildTaskArgs, containsOnlyOutput, isSafeToClean, mergeProfiles, resolveProfileOutput, validateProfiles } from '../compileProfiles';
+
+suite('Compile Profiles Test Suite', () => {
+	test('Keeps valid profiles and reports invalid ones', () => {
+		const { profiles, errors } = validateProfiles([
+			{ name: 'Web', outputDirectory: 'site' },
+			{ name: 'Print', target: 'pdf', args: ['--strict'], clean: true },
+			{ target: 'pdf' },
+			{ name: 'Slides', target: 'pptx' },
+			{ name: 'Broken', args: '--strict' }
+		], 'settings');
+
+		assert.deepStrictEqual(profiles.map(p => p.name), ['Web', 'Print']);
+		assert.strictEqual(profiles[1].clean, true);
+		assert.strictEqual(errors.length, 3);
+		assert.ok(errors[1].includes('pptx'));
+		assert.deepStrictEqual(validateProfiles({ name: 'Web' }, 'settings').errors, ['settings: profiles must be an array']);
+	});
+
+	test('Lets later profiles replace earlier ones with the same name', () => {
+		const merged = mergeProfiles([{ name: 'Web' }, { name: 'Print' }], [{ name: 'Web', target: 'pdf' }]);
+		assert.deepStrictEqual(merged, [{ name: 'Print' }, { name: 'Web', target: 'pdf' }]);
+	});
+
+	test('Builds the compile command line', () => {
+		const workspace = path.resolve('/workspace');
+		const outputDir = resolveProfileOutput({ name: 'Print' }, workspace);
+		assert.strictEqual(outputDir, path.join(workspace, 'output'));
+		assert.deepStrictEqual(
+			buildProfileArgs({ name: 'Print', target: 'pdf', args: ['--strict'] }, 'main.qd', outputDir),
+			['c', 'main.qd', '-o', outputDir, '--pdf', '--strict']
+		);
+	});
+
+	test('Builds the command line of tasks', () => {
+		assert.deepStrictEqual(buildTaskArgs('compile', 'main.qd', 'output'), ['c', 'main.qd', '-o', 'output']);
+		assert.deepStrictEqual(buildTaskArgs('pdf', 'main.qd', 'output', ['--strict']), ['c', 'main.qd', '-o', 'output', '--pdf', '--strict']);
+		assert.deepStrictEqual(
+			buildTaskArgs('serve', 'main.qd', 'output', [], 8090),
+			['c', 'main.qd', '-o', 'output', '--preview', '--watch', '--server-port', '8090']
+		);
+	});
+
+	test('Refuses to clean the workspace or a directory with the entry file', () => {
+		const workspace = path.resolve('/workspace');
+		const entry = path.join(workspace, 'src', 'main.qd');
+		assert.strictEqual(isSafeToClean(path.join(workspace, 'output'), workspace, entry), true);
+		assert.strictEqual(isSafeToClean(workspace, workspace, entry), false);
+		assert.strictEqual(isSafeToClean(path.dirname(workspace), workspace, entry), false);
+		assert.strictEqual(isSafeToClean(path.join(workspace, 'src'), workspace, entry), false);
+	});
+
+	test('Tells Quarkdown output apart from other directories', () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'quarkdown-clean-test-'));
+		try {
+			const dir = (...segments: string[]) => {
+				const dirPath = path.join(root, ...segments);
+				fs.mkdirSync(dirPath, { recursive: true });
+				return dirPath;
+			};
+			assert.strictEqual(containsOnlyOutput(path.join(root, 'missing')), true);
+			assert.strictEqual(containsOnlyOutput(dir('empty')), true);
+
+			const output = dir('output');
+			fs.writeFileSync(path.join(dir('output', 'My-Document'), 'index.html'), '');
+			fs.writeFileSync(path.join(dir('output', 'My-Document', 'script'), 'main.js'), '');
+			fs.writeFileSync(path.join(output, 'My-Document.pdf'), '');
+			assert.strictEqual(containsOnlyOutput(output), true);
+
+			const chapters = dir('chapters');
+			fs.writeFileSync(path.join(chapters, 'one.qd'), '');
+			assert.strictEqual(containsOnlyOutput(chapters), false);
+
+			const site = dir('site');
+			fs.writeFileSync(path.join(dir('site', 'docs'), 'index.html'), '');
+			fs.writeFileSync(path.join(dir('site', 'docs', 'src'), 'main.qmd'), '');
+			assert.strictEqual(containsOnlyOutput(site), false);
+
+			const src = dir('src');
+			fs.writeFileSync(path.join(src, 'notes.txt'), '');
+			assert.strictEqual(containsOnlyOutput(src), false);
+			assert.strictEqual(containsOnlyOutput(root), false);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
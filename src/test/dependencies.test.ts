@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { findDependencies } from '../dependencies';
+
+suite('Dependencies Test Suite', () => {
+	const root = path.resolve('/project');
+	const sources = new Map<string, string>([
+		[path.join(root, 'main.qd'), [
+			'.include {chapters/one.qd}',
+			'![Logo](images/logo.png "Logo")',
+			'[Website](https://example.com) and [section](#intro)',
+			'```',
+			'![Ignored](images/ignored.png)',
+			'```'
+		].join('\n')],
+		[path.join(root, 'chapters', 'one.qd'), '.csv {data.csv}\n[style]: ../theme.css']
+	]);
+	const files = new Set([
+		...sources.keys(),
+		path.join(root, 'images', 'logo.png'),
+		path.join(root, 'images', 'ignored.png'),
+		path.join(root, 'chapters', 'data.csv'),
+		path.join(root, 'theme.css')
+	]);
+
+	test('Finds included sources and referenced local files', () => {
+		const dependencies = findDependencies(path.join(root, 'main.qd'), p => sources.get(p), p => files.has(p));
+		assert.deepStrictEqual(dependencies.map(d => path.relative(root, d)).sort(), [
+			path.join('chapters', 'data.csv'),
+			path.join('chapters', 'one.qd'),
+			path.join('images', 'logo.png'),
+			'theme.css'
+		]);
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+// Stands in for Quarkdown: passes the installation check and writes an HTML output
+const FAKE_QUARKDOWN = `#!/bin/sh
+echo "$*" >> "$(dirname "$0")/invocations.log"
+output=""
+previous=""
+for arg in "$@"; do
+	if [ "$arg" = "--help" ]; then
+		echo "Usage: quarkdown [options] command"
+		exit 0
+	fi
+	if [ "$previous" = "-o" ]; then
+		output="$arg"
+	fi
+	previous="$arg"
+done
+mkdir -p "$output/deck"
+echo "<html><body><section>Intro</section></body></html>" > "$output/deck/index.html"
+`;
+
+function webviewTabs(viewType: string): vscode.Tab[] {
+	return vscode.window.tabGroups.all
+		.flatMap(group => group.tabs)
+		.filter(tab => tab.input instanceof vscode.TabInputWebview && tab.input.viewType.endsWith(viewType));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 10000): Promise<void> {
+	const start = Date.now();
+	while (!condition()) {
+		if (Date.now() - start > timeoutMs) {
+			throw new Error('Timed out');
+		}
+		await new Promise(resolve => setTimeout(resolve, 100));
+	}
+}
+
+suite('Editor Title Commands Test Suite', () => {
+	const config = () => vscode.workspace.getConfiguration('quarkdownPreview');
+	// Editor title menus pass it as the second argument, where explorer menus pass the selection
+	const editorIdentifier = { groupId: 1, editorIndex: 0 };
+	let dir: string;
+	let deck: vscode.Uri;
+
+	suiteSetup(async function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarkdown-commands-test-'));
+		const quarkdownPath = path.join(dir, 'quarkdown');
+		fs.writeFileSync(quarkdownPath, FAKE_QUARKDOWN, { mode: 0o755 });
+		deck = vscode.Uri.file(path.join(dir, 'deck.qmd'));
+		fs.writeFileSync(deck.fsPath, '.doctype {slides}\n\n# Intro\n');
+		await config().update('quarkdownPath', quarkdownPath, vscode.ConfigurationTarget.Global);
+	});
+
+	suiteTeardown(async () => {
+		if (!dir) {
+			return;
+		}
+		await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		await config().update('quarkdownPath', undefined, vscode.ConfigurationTarget.Global);
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('Opens the preview of the clicked file', async () => {
+		await vscode.commands.executeCommand('quarkdown-preview.openPreviewToSide', deck, editorIdentifier);
+
+		assert.deepStrictEqual(webviewTabs('quarkdownPreview').map(tab => tab.label), ['Preview: deck']);
+		const invocations = path.join(dir, 'invocations.log');
+		await waitFor(() => fs.existsSync(invocations) && /^c \S*deck\.qmd -o /m.test(fs.readFileSync(invocations, 'utf8')));
+	});
+
+	test('Opens the presenter of the clicked file', async () => {
+		await vscode.commands.executeCommand('quarkdown-preview.openPresenter', deck, editorIdentifier);
+
+		assert.deepStrictEqual(webviewTabs('quarkdownPresenter').map(tab => tab.label), ['Presenter: deck']);
+	});
+});
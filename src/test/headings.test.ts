@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { findHeadings, headingAtLine, normalizeHeadingText } from '../headings';
+
+suite('Headings Test Suite', () => {
+	test('Finds ATX and setext headings outside code blocks', () => {
+		const source = [
+			'.docname {Example}',
+			'# Introduction',
+			'```',
+			'# Not a heading',
+			'```',
+			'Overview',
+			'--------',
+			'#! Unnumbered'
+		].join('\n');
+
+		const headings = findHeadings(source);
+		assert.deepStrictEqual(headings.map(h => [h.line, h.level, h.text]), [
+			[1, 1, 'Introduction'],
+			[5, 2, 'Overview'],
+			[7, 1, 'Unnumbered']
+		]);
+	});
+
+	test('Maps a line to the heading of its section', () => {
+		const headings = findHeadings('# One\ntext\n## Two\ntext');
+		assert.strictEqual(headingAtLine(headings, 0)?.text, 'One');
+		assert.strictEqual(headingAtLine(headings, 3)?.text, 'Two');
+	});
+
+	test('Ignores inline markup when normalizing heading text', () => {
+		assert.strictEqual(normalizeHeadingText('The **Quick** `fox`'), normalizeHeadingText('The Quick fox'));
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { collectIncludeChain, findRootFile, resolveIncludePath } from '../includes';
+
+suite('Includes Test Suite', () => {
+	const root = path.resolve('/project');
+	const files = new Map<string, string>([
+		[path.join(root, 'main.qd'), '.include {chapters/one.qd}\n.include {missing.qd}\n.include {setup.qd}'],
+		[path.join(root, 'chapters', 'one.qd'), '.include {../setup.qd}\n.var {title} {One}'],
+		[path.join(root, 'setup.qd'), '.function {greet}\n    to:\n    Hello, .to!\n.include {main.qd}']
+	]);
+
+	test('Resolves include paths relative to the including file', () => {
+		assert.strictEqual(
+			resolveIncludePath(path.join(root, 'chapters', 'one.qd'), '../setup.qd'),
+			path.join(root, 'setup.qd')
+		);
+	});
+
+	test('Walks includes depth first, skipping missing files and cycles', () => {
+		const chain = collectIncludeChain(path.join(root, 'main.qd'), filePath => files.get(filePath));
+		assert.deepStrictEqual(chain.map(source => path.relative(root, source.filePath)), [
+			'main.qd',
+			path.join('chapters', 'one.qd'),
+			'setup.qd'
+		]);
+		assert.deepStrictEqual(chain[2].parsed.functions.map(f => f.name), ['greet']);
+	});
+
+	test('Follows includers up to the project entry file', () => {
+		const includers = new Map<string, string[]>([
+			[path.join(root, 'chapters', 'one.qd'), [path.join(root, 'main.qd')]],
+			[path.join(root, 'setup.qd'), [path.join(root, 'main.qd'), path.join(root, 'chapters', 'one.qd')]]
+		]);
+		const includersOf = (filePath: string) => includers.get(filePath) ?? [];
+
+		assert.strictEqual(findRootFile(path.join(root, 'setup.qd'), includersOf), path.join(root, 'main.qd'));
+		assert.strictEqual(findRootFile(path.join(root, 'other.qd'), includersOf), path.join(root, 'other.qd'));
+	});
+
+	test('Stops at include cycles', () => {
+		const a = path.join(root, 'a.qd');
+		const b = path.join(root, 'b.qd');
+		assert.strictEqual(findRootFile(a, filePath => filePath === a ? [b] : [a]), b);
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { OutlineNode, buildOutline, findFoldingRegions } from '../outline';
+
+function summarize(nodes: OutlineNode[]): unknown[] {
+	return nodes.map(node => node.children.length > 0
+		? [node.name, node.line, node.endLine, summarize(node.children)]
+		: [node.name, node.line, node.endLine]);
+}
+
+suite('Outline Test Suite', () => {
+	const source = [
+		'.doctype {slides}',
+		'.function {greet}',
+		'    to:',
+		'    Hello, .to!',
+		'',
+		'# Intro',
+		'.row alignment:{center}',
+		'    .box {Tip}',
+		'        Content',
+		'',
+		'    Right',
+		'',
+		'<<<',
+		'',
+		'## Details',
+		'```',
+		'.row',
+		'    not a block',
+		'```',
+		'# End'
+	].join('\n');
+
+	test('Nests blocks and breaks under headings', () => {
+		assert.deepStrictEqual(summarize(buildOutline(source)), [
+			['greet', 1, 3],
+			['Intro', 5, 18, [
+				['.row', 6, 10, [['.box', 7, 8]]],
+				['Slide break', 12, 12],
+				['Details', 14, 18]
+			]],
+			['End', 19, 19]
+		]);
+	});
+
+	test('Folds sections, call bodies and code blocks', () => {
+		assert.deepStrictEqual(findFoldingRegions(source).map(r => [r.start, r.end]), [
+			[1, 3],
+			[5, 18],
+			[6, 10],
+			[7, 8],
+			[14, 18],
+			[15, 18]
+		]);
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { normalizeHeadingText } from '../headings';
+import { injectPreviewBridge } from '../previewBridge';
+
+suite('Preview Bridge Test Suite', () => {
+	let outputDir: string;
+
+	setup(() => {
+		outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarkdown-bridge-test-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(outputDir, { recursive: true, force: true });
+	});
+
+	test('Injects the bridge once before the closing body tag', () => {
+		const documentDir = path.join(outputDir, 'Document');
+		fs.mkdirSync(documentDir);
+		const htmlFile = path.join(documentDir, 'index.html');
+		fs.writeFileSync(htmlFile, '<html><body><p>Hello</p></body></html>');
+
+		injectPreviewBridge(outputDir);
+		injectPreviewBridge(outputDir);
+
+		const html = fs.readFileSync(htmlFile, 'utf8');
+		assert.strictEqual(html.split('data-quarkdown-preview-bridge').length, 2);
+		assert.ok(html.indexOf('data-quarkdown-preview-bridge') < html.indexOf('</body>'));
+	});
+
+	test('Leaves incomplete HTML files untouched', () => {
+		const htmlFile = path.join(outputDir, 'index.html');
+		fs.writeFileSync(htmlFile, '<html><body><p>Hel');
+
+		injectPreviewBridge(outputDir);
+
+		assert.strictEqual(fs.readFileSync(htmlFile, 'utf8'), '<html><body><p>Hel');
+	});
+
+	test('Normalizes heading text in the page like in the editor', () => {
+		const htmlFile = path.join(outputDir, 'index.html');
+		fs.writeFileSync(htmlFile, '<html><body></body></html>');
+		injectPreviewBridge(outputDir);
+
+		const html = fs.readFileSync(htmlFile, 'utf8');
+		const source = html.match(/function normalizeText\(text\) \{[\s\S]*?\n    \}/);
+		assert.ok(source);
+		const normalizeText = new Function(`${source[0]}; return normalizeText;`)() as (text: string) => string;
+		for (const text of ['Intro  Part', '**Bold** _title_', 'Use `code` [here](#x)!', 'What: a, b; "c"', 'Tabs\tand~tilde']) {
+			assert.strictEqual(normalizeText(text), normalizeHeadingText(text), text);
+		}
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { acquireCacheDirectory, cacheDirectoryName, sweepCacheDirectories } from '../previewCache';
+
+// No process runs with this id: the maximum pid on Linux is 2^22
+const EXITED_PID = 2 ** 30;
+
+suite('Preview Cache Test Suite', () => {
+	let baseDir: string;
+
+	setup(() => {
+		baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarkdown-cache-test-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(baseDir, { recursive: true, force: true });
+	});
+
+	test('Reuses the directory of a document unless another running process uses it', () => {
+		const filePath = path.join(baseDir, 'docs', 'chapter one.qd');
+		assert.strictEqual(cacheDirectoryName(filePath), cacheDirectoryName(filePath));
+		assert.notStrictEqual(cacheDirectoryName(filePath), cacheDirectoryName(path.join(baseDir, 'chapter one.qd')));
+
+		const exited = acquireCacheDirectory(baseDir, filePath, EXITED_PID);
+		const first = acquireCacheDirectory(baseDir, filePath);
+		assert.strictEqual(first, exited);
+		assert.strictEqual(acquireCacheDirectory(baseDir, filePath), first);
+		assert.ok(path.basename(first).startsWith('quarkdown-preview-chapter-one-'));
+
+		// The parent process stands for another window
+		const other = acquireCacheDirectory(baseDir, filePath, process.ppid);
+		assert.strictEqual(other, `${first}-2`);
+	});
+
+	test('Sweeps the directories no running process uses', () => {
+		const legacy = path.join(baseDir, 'quarkdown-preview-notes-1700000000000');
+		fs.mkdirSync(legacy);
+		const unrelated = path.join(baseDir, 'something-else');
+		fs.mkdirSync(unrelated);
+		const exited = acquireCacheDirectory(baseDir, 'a.qd', EXITED_PID);
+		const other = acquireCacheDirectory(baseDir, 'b.qd', process.ppid);
+		const active = acquireCacheDirectory(baseDir, 'c.qd');
+		const stale = acquireCacheDirectory(baseDir, 'd.qd');
+
+		const removed = sweepCacheDirectories(baseDir, new Set([active]));
+
+		assert.deepStrictEqual(removed.sort(), [legacy, exited, stale].sort());
+		assert.ok(fs.existsSync(other));
+		assert.ok(fs.existsSync(active));
+		assert.ok(fs.existsSync(unrelated));
+	});
+});
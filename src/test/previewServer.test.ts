@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { PreviewServer } from '../previewServer';
+
+function get(url: string): Promise<{ status: number; type?: string; body: string }> {
+	return new Promise((resolve, reject) => {
+		http.get(url, response => {
+			let body = '';
+			response.on('data', chunk => { body += chunk; });
+			response.on('end', () => resolve({ status: response.statusCode ?? 0, type: response.headers['content-type'], body }));
+		}).on('error', reject);
+	});
+}
+
+suite('Preview Server Test Suite', () => {
+	let server: PreviewServer;
+	let outputDirs: string[];
+
+	setup(() => {
+		server = new PreviewServer();
+		outputDirs = ['a', 'b'].map(name => {
+			const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quarkdown-server-test-'));
+			fs.writeFileSync(path.join(dir, 'index.html'), `<p>${name}</p>`);
+			fs.mkdirSync(path.join(dir, 'script'));
+			fs.writeFileSync(path.join(dir, 'script', 'main.js'), `// ${name}`);
+			return dir;
+		});
+	});
+
+	teardown(() => {
+		server.close();
+		outputDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+	});
+
+	test('Serves every mounted directory under its own prefix on one port', async () => {
+		const port = await server.start();
+		assert.strictEqual(await server.start(), port);
+
+		const first = server.mount(outputDirs[0], 'Chapter 1');
+		const second = server.mount(outputDirs[1], 'Chapter 1');
+		assert.notStrictEqual(first, second);
+
+		const page = await get(server.getUrl(first));
+		assert.strictEqual(page.status, 200);
+		assert.strictEqual(page.type, 'text/html; charset=utf-8');
+		assert.strictEqual(page.body, '<p>a</p>');
+		assert.strictEqual((await get(server.getUrl(second) + 'script/main.js')).body, '// b');
+		assert.strictEqual((await get(server.getUrl(first).slice(0, -1))).status, 301);
+
+		server.unmount(first);
+		assert.strictEqual((await get(server.getUrl(first))).status, 404);
+	});
+
+	test('Does not serve files outside of the mounted directory', async () => {
+		await server.start();
+		const prefix = server.mount(path.join(outputDirs[0], 'script'), 'script');
+
+		assert.strictEqual((await get(server.getUrl(prefix) + '..%2Findex.html')).status, 404);
+		assert.strictEqual((await get(server.getUrl(prefix) + 'missing.js')).status, 404);
+		assert.strictEqual((await get(server.getUrl(prefix) + '%00')).status, 400);
+		assert.strictEqual((await get(server.getUrl(prefix) + 'main.js%00.html')).status, 400);
+	});
+});
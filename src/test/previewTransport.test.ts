@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { choosePreviewTransport, previewFrameSources } from '../previewTransport';
+
+suite('Preview Transport Test Suite', () => {
+	test('Picks the transport from the remote name unless configured', () => {
+		assert.strictEqual(choosePreviewTransport('auto', undefined), 'localhost');
+		assert.strictEqual(choosePreviewTransport(undefined, 'ssh-remote'), 'webviewResource');
+		assert.strictEqual(choosePreviewTransport('auto', 'codespaces'), 'webviewResource');
+		assert.strictEqual(choosePreviewTransport('forwarded', 'wsl'), 'forwarded');
+		assert.strictEqual(choosePreviewTransport('localhost', 'wsl'), 'localhost');
+	});
+
+	test('Allows frames from the origin of the transport only', () => {
+		const cspSource = 'https://*.vscode-cdn.net';
+		assert.strictEqual(previewFrameSources('localhost', cspSource), 'http://127.0.0.1:* http://localhost:*');
+		assert.strictEqual(previewFrameSources('webviewResource', cspSource), cspSource);
+		assert.ok(previewFrameSources('forwarded', cspSource).includes('https:'));
+	});
+});
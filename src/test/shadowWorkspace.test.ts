@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mirrorSources } from '../shadowWorkspace';
+
+suite('Shadow Workspace Test Suite', () => {
+	let root: string;
+	let shadowDir: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'quarkdown-shadow-test-'));
+		shadowDir = path.join(root, '.shadow');
+		fs.mkdirSync(path.join(root, 'docs'));
+		fs.mkdirSync(path.join(root, 'shared'));
+		fs.writeFileSync(path.join(root, 'docs', 'main.qd'), '# Saved');
+		fs.writeFileSync(path.join(root, 'docs', 'unrelated.qd'), '# Unrelated');
+		fs.writeFileSync(path.join(root, 'shared', 'x.qd'), '# Shared');
+		fs.writeFileSync(path.join(root, 'img.png'), 'png');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Mirrors the sources the document reaches, above its directory too', () => {
+		const mainPath = path.join(root, 'docs', 'main.qd');
+		const buffer = '.include {../shared/x.qd}\n\n![Image](../img.png)';
+		const read = (filePath: string) => filePath === mainPath ? buffer : fs.readFileSync(filePath, 'utf8');
+
+		const shadow = mirrorSources(mainPath, path.join(root, 'docs'), shadowDir, read);
+
+		assert.strictEqual(shadow.sourceRoot, root);
+		assert.strictEqual(shadow.filePath, path.join(shadowDir, 'docs', 'main.qd'));
+		assert.strictEqual(fs.readFileSync(shadow.filePath, 'utf8'), buffer);
+		assert.strictEqual(fs.readFileSync(path.join(shadowDir, 'shared', 'x.qd'), 'utf8'), '# Shared');
+		assert.ok(fs.existsSync(path.join(shadowDir, 'img.png')));
+		assert.ok(!fs.existsSync(path.join(shadowDir, 'docs', 'unrelated.qd')));
+	});
+
+	test('Removes the shadow files no longer reached', () => {
+		const mainPath = path.join(root, 'docs', 'main.qd');
+		let buffer = '.include {../shared/x.qd}';
+		const read = (filePath: string) => filePath === mainPath ? buffer : fs.readFileSync(filePath, 'utf8');
+		mirrorSources(mainPath, root, shadowDir, read);
+		assert.ok(fs.existsSync(path.join(shadowDir, 'shared', 'x.qd')));
+
+		buffer = '# No includes';
+		mirrorSources(mainPath, root, shadowDir, read);
+
+		assert.ok(fs.existsSync(path.join(shadowDir, 'docs', 'main.qd')));
+		assert.ok(!fs.existsSync(path.join(shadowDir, 'shared')));
+	});
+});
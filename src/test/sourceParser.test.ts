@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { definitionSnippet, findCallContext, findDocumentType, parseSource } from '../sourceParser';
+import { activeParameterIndex, findStdlibFunction } from '../stdlibCatalog';
+
+suite('Source Parser Test Suite', () => {
+	test('Finds function and variable definitions outside code blocks', () => {
+		const source = [
+			'.function {greet}',
+			'    to from?:',
+			'    Hello, .to!',
+			'',
+			'.var {accent} {#f80}',
+			'```',
+			'.function {hidden}',
+			'```'
+		].join('\n');
+
+		const parsed = parseSource(source);
+		assert.deepStrictEqual(parsed.functions.map(f => [f.name, f.line, f.character, f.parameters]), [
+			['greet', 0, 11, ['to', 'from?']]
+		]);
+		assert.deepStrictEqual(parsed.variables.map(v => [v.name, v.line, v.value]), [['accent', 4, '#f80']]);
+	});
+
+	test('Finds include and includeall references', () => {
+		const source = [
+			'.include {setup.qd}',
+			'.includeall',
+			'    - chapters/one.qd',
+			'    - chapters/two.qd',
+			'',
+			'Text'
+		].join('\n');
+
+		assert.deepStrictEqual(parseSource(source).includes.map(i => [i.path, i.line, i.character]), [
+			['setup.qd', 0, 10],
+			['chapters/one.qd', 2, 6],
+			['chapters/two.qd', 3, 6]
+		]);
+	});
+
+	test('Finds calls, skipping inline code and function parameters', () => {
+		const source = [
+			'.var {name} {World}',
+			'.function {greet}',
+			'    name:',
+			'    Hello, .name from `.code`!',
+			'',
+			'.greet {.name}::uppercase'
+		].join('\n');
+
+		assert.deepStrictEqual(parseSource(source).calls.map(c => [c.name, c.line, c.character]), [
+			['var', 0, 1],
+			['function', 1, 1],
+			['greet', 5, 1],
+			['name', 5, 9],
+			['uppercase', 5, 16]
+		]);
+	});
+
+	test('Finds the document type outside code blocks', () => {
+		assert.strictEqual(findDocumentType('.docname {Talk}\n.doctype {slides}'), 'slides');
+		assert.strictEqual(findDocumentType('```\n.doctype {paged}\n```\nUse `.doctype {slides}` for decks'), undefined);
+	});
+
+	test('Extracts a definition with its indented body', () => {
+		const source = '.function {greet}\n    to:\n    Hello, .to!\n\nAfter';
+		assert.strictEqual(definitionSnippet(source, 0), '.function {greet}\n    to:\n    Hello, .to!');
+	});
+
+	test('Tracks positional and named arguments of the current call', () => {
+		const context = findCallContext('.row {center} gap:{1cm} cross:{');
+		assert.strictEqual(context?.functionName, 'row');
+		assert.strictEqual(context?.positionalIndex, 1);
+		assert.deepStrictEqual(context?.namedArguments, ['gap']);
+		assert.strictEqual(context?.currentNamedArgument, 'cross');
+		assert.strictEqual(context?.insideArgument, true);
+	});
+
+	test('Follows nested and chained calls', () => {
+		assert.strictEqual(findCallContext('.container width:{.sum {1} {')?.functionName, 'sum');
+		assert.strictEqual(findCallContext('.container width:{.sum {1} {2}} ')?.functionName, 'container');
+		assert.strictEqual(findCallContext('.read {file.txt}::uppercase ')?.functionName, 'uppercase');
+		assert.strictEqual(findCallContext('Plain text with a period.'), undefined);
+	});
+
+	test('Maps the call context to the active catalog parameter', () => {
+		const row = findStdlibFunction('row')!;
+		const alignmentIndex = row.parameters.findIndex(p => p.name === 'alignment');
+		const crossIndex = row.parameters.findIndex(p => p.name === 'cross');
+
+		assert.strictEqual(activeParameterIndex(row, findCallContext('.row {')!), alignmentIndex);
+		assert.strictEqual(activeParameterIndex(row, findCallContext('.row cross:{')!), crossIndex);
+		assert.strictEqual(activeParameterIndex(row, findCallContext('.row alignment:{end} {')!), crossIndex);
+	});
+});
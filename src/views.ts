@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { QuarkdownSymbolIndex } from './symbolIndex';
+import { QuarkdownPreviewManager, RunningPreview } from './quarkdownPreview';
+import { findProjectFiles } from './projectRoot';
+
+/**
+ * A Quarkdown source in the projects tree: a project entry file, or a file it includes.
+ */
+export class QuarkdownFileItem extends vscode.TreeItem {
+    constructor(
+        public readonly filePath: string,
+        public readonly isProject: boolean,
+        /** Files above this one in the include graph, to stop at cycles */
+        public readonly ancestors: ReadonlySet<string>,
+        hasIncludes: boolean
+    ) {
+        super(vscode.Uri.file(filePath), hasIncludes ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+
+        const exists = fs.existsSync(filePath);
+        this.contextValue = !exists ? 'quarkdownMissingFile' : isProject ? 'quarkdownProject' : 'quarkdownFile';
+        this.description = exists ? vscode.workspace.asRelativePath(path.dirname(filePath)) : 'not found';
+        if (exists) {
+            this.command = { command: 'vscode.open', title: 'Open File', arguments: [this.resourceUri] };
+        } else {
+            this.iconPath = new vscode.ThemeIcon('warning');
+        }
+    }
+}
+
+/**
+ * Lists the Quarkdown projects of the workspace, i.e. the files no other file includes,
+ * with their include graphs as children.
+ */
+export class QuarkdownProjectsProvider implements vscode.TreeDataProvider<QuarkdownFileItem>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private subscription: vscode.Disposable;
+    private index = QuarkdownSymbolIndex.getInstance();
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor() {
+        // The index changes on every keystroke: refresh once typing pauses
+        this.subscription = this.index.onDidChange(() => {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = setTimeout(() => this.refresh(), 500);
+        });
+    }
+
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    public getTreeItem(item: QuarkdownFileItem): vscode.TreeItem {
+        return item;
+    }
+
+    public async getChildren(item?: QuarkdownFileItem): Promise<QuarkdownFileItem[]> {
+        if (!item) {
+            return (await findProjectFiles()).map(filePath => this.createItem(filePath, true, new Set()));
+        }
+
+        const ancestors = new Set([...item.ancestors, item.filePath]);
+        return this.index.getIncludedFiles(item.filePath)
+            .filter(filePath => !ancestors.has(filePath))
+            .map(filePath => this.createItem(filePath, false, ancestors));
+    }
+
+    public dispose(): void {
+        clearTimeout(this.refreshTimer);
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    private createItem(filePath: string, isProject: boolean, ancestors: ReadonlySet<string>): QuarkdownFileItem {
+        const hasIncludes = this.index.getIncludedFiles(filePath).some(included => !ancestors.has(included) && included !== filePath);
+        return new QuarkdownFileItem(filePath, isProject, ancestors, hasIncludes);
+    }
+}
+
+/**
+ * A running preview, or one of its details as a child row.
+ */
+export class RunningPreviewItem extends vscode.TreeItem {
+    constructor(public readonly preview: RunningPreview, public readonly detail?: 'server' | 'tempDir') {
+        super(
+            detail ? (detail === 'server' ? 'Server' : 'Temp dir') : path.basename(preview.filePath),
+            detail ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Collapsed
+        );
+
+        if (detail === 'server') {
+            this.description = preview.url ?? 'Webview resources (no server)';
+            this.iconPath = new vscode.ThemeIcon('globe');
+        } else if (detail === 'tempDir') {
+            this.description = preview.tempDir;
+            this.tooltip = preview.tempDir;
+            this.iconPath = new vscode.ThemeIcon('folder');
+            this.contextValue = 'quarkdownPreviewTempDir';
+        } else {
+            this.resourceUri = vscode.Uri.file(preview.filePath);
+            this.description = preview.watchMode ? 'watch mode' : '';
+            this.tooltip = [preview.filePath, preview.url, preview.tempDir].filter(line => line).join('\n');
+            this.iconPath = new vscode.ThemeIcon('open-preview');
+            this.contextValue = 'quarkdownRunningPreview';
+        }
+    }
+}
+
+/**
+ * Lists the running previews with their URLs on the shared preview server and temp directories.
+ */
+export class RunningPreviewsProvider implements vscode.TreeDataProvider<RunningPreviewItem>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private subscription: vscode.Disposable;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private previewManager: QuarkdownPreviewManager) {
+        this.subscription = previewManager.onDidChangePreviews(() => this.changeEmitter.fire());
+    }
+
+    public getTreeItem(item: RunningPreviewItem): vscode.TreeItem {
+        return item;
+    }
+
+    public getChildren(item?: RunningPreviewItem): RunningPreviewItem[] {
+        if (!item) {
+            return this.previewManager.getRunningPreviews().map(preview => new RunningPreviewItem(preview));
+        }
+        return item.detail ? [] : [new RunningPreviewItem(item.preview, 'server'), new RunningPreviewItem(item.preview, 'tempDir')];
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+}